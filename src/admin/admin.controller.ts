@@ -0,0 +1,57 @@
+import { Controller, Get, Patch, Post, Body, Param, HttpCode, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../common/admin.guard';
+import { ProviderRegistry } from '../providers/provider.registry';
+import { CacheService } from '../cache/cache.service';
+import { CacheStats, ProviderInfo } from '../common/types';
+import { UpdateProviderDto } from './admin.dto';
+
+/**
+ * Admin Controller
+ * Operational endpoints, protected by the X-Admin-Key header
+ */
+@Controller('api/admin')
+@UseGuards(AdminGuard)
+export class AdminController {
+  constructor(
+    private providerRegistry: ProviderRegistry,
+    private cacheService: CacheService,
+  ) {}
+
+  /**
+   * GET /api/admin/providers
+   * List registered providers with their runtime state
+   */
+  @Get('providers')
+  getProviders(): ProviderInfo[] {
+    return this.providerRegistry.getProviderInfo();
+  }
+
+  /**
+   * PATCH /api/admin/providers/:name
+   * Enable or disable a provider without a restart
+   */
+  @Patch('providers/:name')
+  updateProvider(@Param('name') name: string, @Body() dto: UpdateProviderDto): ProviderInfo {
+    return this.providerRegistry.setEnabled(name, dto.enabled);
+  }
+
+  /**
+   * POST /api/admin/providers/health-check
+   * Re-run provider health checks now
+   */
+  @Post('providers/health-check')
+  @HttpCode(200)
+  async runHealthChecks(): Promise<ProviderInfo[]> {
+    await this.providerRegistry.runHealthChecks();
+    return this.providerRegistry.getProviderInfo();
+  }
+
+  /**
+   * GET /api/admin/cache
+   * Cache hit/miss/stale counters and tier state
+   */
+  @Get('cache')
+  getCacheStats(): CacheStats {
+    return this.cacheService.getStats();
+  }
+}
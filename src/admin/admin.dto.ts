@@ -0,0 +1,9 @@
+import { IsBoolean } from 'class-validator';
+
+/**
+ * DTO for enabling/disabling a provider at runtime
+ */
+export class UpdateProviderDto {
+  @IsBoolean()
+  enabled!: boolean;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+import { ProvidersModule } from '../providers/providers.module';
+import { CacheModule } from '../cache/cache.module';
+
+@Module({
+  imports: [ProvidersModule, CacheModule],
+  controllers: [AdminController],
+})
+export class AdminModule {}
@@ -0,0 +1,99 @@
+import { AffiliateLinksService } from './affiliate-links.service';
+import { FlightSearchParams } from '../common/types';
+
+describe('AffiliateLinksService', () => {
+  let service: AffiliateLinksService;
+
+  const roundTrip: FlightSearchParams = {
+    from: 'lhr',
+    to: 'jfk',
+    departDate: '2099-06-01',
+    returnDate: '2099-06-10',
+    tripType: 'round-trip',
+    passengerBreakdown: { adults: 2, children: 1, infants: 0 },
+  };
+  const openJaw: FlightSearchParams = { ...roundTrip, returnFrom: 'BOS' };
+  const multiCity: FlightSearchParams = {
+    ...roundTrip,
+    tripType: 'multi-city',
+    returnDate: undefined,
+    segments: [
+      { from: 'LHR', to: 'JFK', departDate: '2099-06-01' },
+      { from: 'BOS', to: 'CDG', departDate: '2099-06-10' },
+    ],
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    service = new AffiliateLinksService();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getPartner', () => {
+    it('books Kiwi offers on Kiwi whatever the airline', () => {
+      expect(service.getPartner('kiwi', 'BA', roundTrip).key).toBe('kiwi');
+    });
+
+    it('books on the airline when it has a template', () => {
+      expect(service.getPartner('amadeus', 'ba', roundTrip).key).toBe('airline:BA');
+    });
+
+    it('falls back to the OTA for airlines without a template', () => {
+      expect(service.getPartner('amadeus', 'ZZ', roundTrip).key).toBe('expedia');
+    });
+
+    it('falls back to the OTA when the airline template cannot list every segment', () => {
+      expect(service.getPartner('amadeus', 'BA', multiCity).key).toBe('expedia');
+    });
+
+    it('falls back to the OTA when the airline template cannot take a different return route', () => {
+      expect(service.getPartner('amadeus', 'BA', openJaw).key).toBe('expedia');
+    });
+  });
+
+  describe('buildBookingUrl', () => {
+    const link = (provider: string, airlineCode: string, params: FlightSearchParams) =>
+      new URL(service.buildBookingUrl({ provider, airlineCode, offerRef: 'offer-1', params }));
+
+    it('fills the airline template and leaves out params without a value', () => {
+      const url = link('amadeus', 'BA', { ...roundTrip, tripType: 'one-way', returnDate: undefined });
+
+      expect(url.hostname).toBe('www.britishairways.com');
+      expect(url.searchParams.get('from')).toBe('LHR');
+      expect(url.searchParams.get('depDate')).toBe('2099-06-01');
+      expect(url.searchParams.get('ad')).toBe('2');
+      expect(url.searchParams.has('retDate')).toBe(false);
+      expect(url.searchParams.has('cabin')).toBe(false);
+      expect(url.searchParams.get('utm_campaign')).toBe('amadeus');
+    });
+
+    it('passes the booking token to Kiwi', () => {
+      expect(link('kiwi', 'BA', roundTrip).searchParams.get('booking_token')).toBe('offer-1');
+    });
+
+    it('sends the open-jaw return route to the OTA', () => {
+      const url = link('amadeus', 'BA', openJaw);
+
+      expect(url.hostname).toBe('www.expedia.com');
+      expect(url.searchParams.get('leg1')).toBe('from:LHR,to:JFK,departure:2099-06-01');
+      expect(url.searchParams.get('leg2')).toBe('from:BOS,to:LHR,departure:2099-06-10');
+    });
+
+    it('lists every multi-city segment', () => {
+      const url = link('amadeus', 'BA', multiCity);
+
+      expect(url.searchParams.get('leg1')).toBe('from:LHR,to:JFK,departure:2099-06-01');
+      expect(url.searchParams.get('leg2')).toBe('from:BOS,to:CDG,departure:2099-06-10');
+    });
+  });
+
+  it('tags a link with a click id in the partner sub-id param', () => {
+    const partner = service.getPartner('amadeus', 'ZZ', roundTrip);
+    const url = new URL(service.addSubId('https://www.expedia.com/Flights-Search', partner, 'click-1'));
+
+    expect(url.searchParams.get('afflid')).toBe('click-1');
+  });
+});
@@ -0,0 +1,192 @@
+import { Injectable } from '@nestjs/common';
+import { FlightSearchParams } from '../common/types';
+import { getReturnRoute, isOpenJaw } from '../common/trip.utils';
+import partnersData from './data/partners.json';
+
+/**
+ * A booking partner's deep link template
+ * `url` and `params` values may contain {placeholders}; a param whose
+ * placeholders have no value (e.g. {returnDate} on a one-way trip) is left out
+ */
+export interface AffiliatePartner {
+  key: string; // 'kiwi', 'expedia' or 'airline:BA'
+  name: string;
+  type: 'ota' | 'airline';
+  url: string;
+  params: Record<string, string>;
+  subIdParam: string; // Query param the partner echoes back in its commission reports
+  defaultAffiliateId?: string;
+  // Multi-city trips: one param per segment, with {n} the segment number (from 1) and {from}/{to}/{departDate} its route
+  legParam?: { name: string; value: string };
+}
+
+/**
+ * What a booking link is built from
+ */
+export interface BookingLinkContext {
+  provider: string;
+  airlineCode: string;
+  offerRef: string; // The provider's own offer id, without our prefix
+  params: FlightSearchParams;
+}
+
+type PartnerTemplate = Omit<AffiliatePartner, 'key' | 'type'>;
+
+/**
+ * Affiliate Links Service
+ * Builds partner deep links from the templates in data/partners.json
+ * Kiwi offers are booked on Kiwi; other offers go to the marketing airline
+ * when it has a template, otherwise to AFFILIATE_FALLBACK_PARTNER (an OTA)
+ * Multi-city trips only go to partners whose template can list every segment,
+ * and open-jaw trips to partners whose template takes a {returnLeg}
+ * Affiliate ids come from <PARTNER>_AFFILIATE_ID, e.g. KIWI_AFFILIATE_ID or AIRLINE_BA_AFFILIATE_ID
+ */
+@Injectable()
+export class AffiliateLinksService {
+  private partners: Map<string, AffiliatePartner> = new Map();
+  private readonly fallbackPartner = process.env.AFFILIATE_FALLBACK_PARTNER || 'expedia';
+  private readonly utmSource = process.env.AFFILIATE_UTM_SOURCE || 'findmyflight';
+
+  constructor() {
+    const data = partnersData as { otas: Record<string, PartnerTemplate>; airlines: Record<string, PartnerTemplate> };
+
+    for (const [key, template] of Object.entries(data.otas)) {
+      this.partners.set(key, { ...template, key, type: 'ota' });
+    }
+    for (const [code, template] of Object.entries(data.airlines)) {
+      this.partners.set(`airline:${code}`, { ...template, key: `airline:${code}`, type: 'airline' });
+    }
+
+    if (!this.partners.has(this.fallbackPartner)) {
+      throw new Error(`Unknown AFFILIATE_FALLBACK_PARTNER: ${this.fallbackPartner}`);
+    }
+
+    console.log(`[INIT] Loaded ${this.partners.size} booking partners`);
+  }
+
+  /**
+   * The partner an offer is booked with
+   * Kiwi's booking token carries the whole itinerary, so Kiwi takes multi-city offers as-is
+   */
+  getPartner(provider: string, airlineCode: string, params: FlightSearchParams): AffiliatePartner {
+    if (provider === 'kiwi') {
+      return this.partners.get('kiwi')!;
+    }
+
+    const airline = this.partners.get(`airline:${airlineCode.toUpperCase()}`);
+    if (airline && this.canBookTrip(airline, params)) {
+      return airline;
+    }
+
+    return this.partners.get(this.fallbackPartner)!;
+  }
+
+  /**
+   * Untracked deep link for an offer, with UTM parameters
+   * The redirect adds a subId per click with addSubId
+   */
+  buildBookingUrl(context: BookingLinkContext): string {
+    const partner = this.getPartner(context.provider, context.airlineCode, context.params);
+    const values = this.buildValues(partner, context);
+
+    const url = new URL(this.render(partner.url, values, true) ?? partner.url);
+    for (const [name, template] of Object.entries(partner.params)) {
+      const value = this.render(template, values);
+      if (value !== null) {
+        url.searchParams.set(name, value);
+      }
+    }
+
+    if (context.params.tripType === 'multi-city' && partner.legParam) {
+      const { name, value } = partner.legParam;
+      (context.params.segments || []).forEach((segment, index) => {
+        const leg = this.render(value, {
+          ...values,
+          from: segment.from.toUpperCase(),
+          to: segment.to.toUpperCase(),
+          departDate: segment.departDate,
+        });
+        if (leg !== null) {
+          url.searchParams.set(name.replace('{n}', String(index + 1)), leg);
+        }
+      });
+    }
+
+    url.searchParams.set('utm_source', this.utmSource);
+    url.searchParams.set('utm_medium', 'affiliate');
+    url.searchParams.set('utm_campaign', context.provider);
+
+    return url.toString();
+  }
+
+  /**
+   * Tag a deep link with a click id in the partner's sub-id parameter
+   */
+  addSubId(bookingUrl: string, partner: AffiliatePartner, subId: string): string {
+    const url = new URL(bookingUrl);
+    url.searchParams.set(partner.subIdParam, subId);
+    return url.toString();
+  }
+
+  /**
+   * Whether a partner's template can describe the whole trip
+   * Without this, an open-jaw trip would be searched as a plain round trip
+   */
+  private canBookTrip(partner: AffiliatePartner, params: FlightSearchParams): boolean {
+    if (params.tripType === 'multi-city') {
+      return partner.legParam !== undefined;
+    }
+    if (isOpenJaw(params)) {
+      return [partner.url, ...Object.values(partner.params)].some((template) => template.includes('{returnLeg}'));
+    }
+    return true;
+  }
+
+  /**
+   * Placeholder values for a link
+   * A multi-city trip has no single route, so {from}, {to} and {departDate}
+   * are left empty and the route comes from legParam instead
+   */
+  private buildValues(partner: AffiliatePartner, context: BookingLinkContext): Record<string, string | undefined> {
+    const { params } = context;
+    const multiCity = params.tripType === 'multi-city';
+    const passengers = params.passengerBreakdown || { adults: params.passengers ?? 1, children: 0, infants: 0 };
+    const returnDate = params.tripType === 'round-trip' ? params.returnDate : undefined;
+    const returnRoute = getReturnRoute(params);
+    const envKey = `${partner.key.replace(':', '_').toUpperCase()}_AFFILIATE_ID`;
+
+    return {
+      from: multiCity ? undefined : params.from.toUpperCase(),
+      to: multiCity ? undefined : params.to.toUpperCase(),
+      departDate: multiCity ? undefined : params.departDate,
+      returnDate,
+      returnLeg: returnDate ? `from:${returnRoute.from},to:${returnRoute.to},departure:${returnDate}` : undefined,
+      tripType: multiCity ? 'multi-city' : returnDate ? 'round-trip' : 'one-way',
+      adults: String(passengers.adults),
+      children: String(passengers.children),
+      infants: String(passengers.infants),
+      passengers: String(passengers.adults + passengers.children + passengers.infants),
+      cabin: params.cabin,
+      offerRef: context.offerRef,
+      affiliateId: process.env[envKey] || partner.defaultAffiliateId,
+    };
+  }
+
+  /**
+   * Fill a template's placeholders, or null if any of them has no value
+   * Path templates have their values URL-encoded
+   */
+  private render(template: string, values: Record<string, string | undefined>, encode = false): string | null {
+    let missing = false;
+    const rendered = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const value = values[name];
+      if (!value) {
+        missing = true;
+        return '';
+      }
+      return encode ? encodeURIComponent(value) : value;
+    });
+
+    return missing ? null : rendered;
+  }
+}
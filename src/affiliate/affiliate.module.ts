@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { AffiliateLinksService } from './affiliate-links.service';
+
+@Module({
+  providers: [AffiliateLinksService],
+  exports: [AffiliateLinksService],
+})
+export class AffiliateModule {}
@@ -0,0 +1,80 @@
+import { FlexibleSearchService } from './flexible-search.service';
+import { FlightAggregatorService } from './flight-aggregator.service';
+import { FlightSearchParams, FlightSearchResult } from '../common/types';
+
+function emptyResult(params: FlightSearchParams): FlightSearchResult {
+  return {
+    status: 'success',
+    query: params,
+    flights: [],
+    totalResults: 0,
+    providersQueried: [],
+    timestamp: new Date().toISOString(),
+    cacheHit: false,
+  };
+}
+
+describe('FlexibleSearchService', () => {
+  const roundTrip: FlightSearchParams = {
+    from: 'LHR',
+    to: 'JFK',
+    departDate: '2099-06-10',
+    returnDate: '2099-06-20',
+    tripType: 'round-trip',
+    passengers: 1,
+  };
+  let searchFlights: jest.Mock;
+  let service: FlexibleSearchService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    searchFlights = jest.fn(async (params: FlightSearchParams) => emptyResult(params));
+    service = new FlexibleSearchService({ searchFlights } as unknown as FlightAggregatorService);
+  });
+
+  afterEach(() => {
+    delete process.env.FLEXIBLE_SEARCH_MAX_SEARCHES;
+    jest.restoreAllMocks();
+  });
+
+  it('searches every date pair in a small window', async () => {
+    const result = await service.searchFlexible(roundTrip, 1);
+
+    expect(searchFlights).toHaveBeenCalledTimes(9);
+    expect(result.cells).toHaveLength(9);
+    expect(result.skippedSearches).toBe(0);
+  });
+
+  it('caps a ±3 day round trip at the date pairs closest to the requested dates', async () => {
+    const result = await service.searchFlexible(roundTrip, 3);
+    const searched = searchFlights.mock.calls.map(([params]) => params as FlightSearchParams);
+
+    expect(searched).toHaveLength(25);
+    expect(result.skippedSearches).toBe(24);
+    expect(searched[0]).toMatchObject({ departDate: '2099-06-10', returnDate: '2099-06-20' });
+    expect(searched.some((params) => params.departDate === '2099-06-07' && params.returnDate === '2099-06-23')).toBe(false);
+  });
+
+  it('keeps cells in matrix order', async () => {
+    const result = await service.searchFlexible(roundTrip, 3);
+    const order = result.cells.map((cell) => `${cell.departDate}/${cell.returnDate}`);
+
+    expect(order).toEqual([...order].sort());
+  });
+
+  it('reads the cap from FLEXIBLE_SEARCH_MAX_SEARCHES', async () => {
+    process.env.FLEXIBLE_SEARCH_MAX_SEARCHES = '5';
+    service = new FlexibleSearchService({ searchFlights } as unknown as FlightAggregatorService);
+
+    const result = await service.searchFlexible({ ...roundTrip, tripType: 'one-way', returnDate: undefined }, 3);
+
+    expect(result.cells.map((cell) => cell.departDate)).toEqual([
+      '2099-06-08',
+      '2099-06-09',
+      '2099-06-10',
+      '2099-06-11',
+      '2099-06-12',
+    ]);
+  });
+});
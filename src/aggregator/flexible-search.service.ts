@@ -0,0 +1,165 @@
+import { Injectable } from '@nestjs/common';
+import { FlightAggregatorService } from './flight-aggregator.service';
+import { FlexibleDateCell, FlexibleSearchResult, FlightSearchParams, FlightSearchResult } from '../common/types';
+import { rankingEngine } from '../ranking/ranking.engine';
+import { addDays, today } from '../common/date.utils';
+
+/**
+ * Flexible Search Service
+ * Fans a search out over a ±N day window and builds a price matrix
+ * Every cell goes through FlightAggregatorService.searchFlights, so each
+ * date pair is cached individually and nearby searches reuse it
+ * At most FLEXIBLE_SEARCH_MAX_SEARCHES date pairs are searched, closest to
+ * the requested dates first
+ */
+@Injectable()
+export class FlexibleSearchService {
+  // Limit parallel searches so a 7x7 matrix doesn't burst the provider quota
+  private readonly concurrency = parseInt(process.env.FLEXIBLE_SEARCH_CONCURRENCY || '4');
+  // A ±3 day round trip is 49 searches; by default only the 25 closest are run
+  private readonly maxSearches = parseInt(process.env.FLEXIBLE_SEARCH_MAX_SEARCHES || '25');
+
+  constructor(private flightAggregatorService: FlightAggregatorService) {}
+
+  /**
+   * Search every date combination within ±flexibleDays of the requested dates
+   */
+  async searchFlexible(params: FlightSearchParams, flexibleDays: number): Promise<FlexibleSearchResult> {
+    const isRoundTrip = params.tripType === 'round-trip' && !!params.returnDate;
+
+    const departDates = this.buildDateWindow(params.departDate, flexibleDays);
+    const returnDates = isRoundTrip ? this.buildDateWindow(params.returnDate!, flexibleDays) : undefined;
+
+    // Build the list of date pairs to search (skipping returns before departures)
+    const candidates: { departDate: string; returnDate?: string }[] = [];
+    for (const departDate of departDates) {
+      if (!returnDates) {
+        candidates.push({ departDate });
+        continue;
+      }
+      for (const returnDate of returnDates) {
+        if (returnDate > departDate) {
+          candidates.push({ departDate, returnDate });
+        }
+      }
+    }
+
+    // Closest pairs first; the requested pair has distance 0 so is always searched
+    const pairs = candidates
+      .map((pair) => ({ pair, distance: this.distanceFromRequested(params, pair) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.maxSearches)
+      .map(({ pair }) => pair);
+    const skippedSearches = candidates.length - pairs.length;
+
+    console.log(`[FLEXIBLE] Searching ${pairs.length} date combinations for ${params.from} -> ${params.to}`);
+    if (skippedSearches > 0) {
+      console.warn(`[FLEXIBLE] Skipping ${skippedSearches} date combinations over FLEXIBLE_SEARCH_MAX_SEARCHES=${this.maxSearches}`);
+    }
+
+    // Only the requested dates get a search session; the other cells are just prices
+    const results = await this.runWithConcurrency(pairs, (pair) =>
+      this.flightAggregatorService.searchFlights({ ...params, ...pair }, { session: this.isRequestedPair(params, pair) }),
+    );
+
+    const cells: FlexibleDateCell[] = [];
+    let requestedResult: FlightSearchResult | undefined;
+
+    results.forEach((result, index) => {
+      const pair = pairs[index];
+
+      if (this.isRequestedPair(params, pair)) {
+        requestedResult = result;
+      }
+
+      cells.push(this.toCell(pair, result));
+    });
+    cells.sort((a, b) => a.departDate.localeCompare(b.departDate) || (a.returnDate ?? '').localeCompare(b.returnDate ?? ''));
+
+    const priced = cells.filter((c) => c.cheapestPrice !== null);
+    const cheapest = priced.length > 0
+      ? priced.reduce((best, cell) => (cell.cheapestPrice! < best.cheapestPrice! ? cell : best))
+      : null;
+
+    return {
+      query: params,
+      flexibleDays,
+      // The requested dates are always inside the window, so this is only a fallback
+      result: requestedResult || (await this.flightAggregatorService.searchFlights(params)),
+      departDates,
+      returnDates,
+      cells,
+      cheapest,
+      skippedSearches,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Whether a date pair is the one the user originally asked for
+   */
+  private isRequestedPair(params: FlightSearchParams, pair: { departDate: string; returnDate?: string }): boolean {
+    return pair.departDate === params.departDate && (!pair.returnDate || pair.returnDate === params.returnDate);
+  }
+
+  /**
+   * How many days a date pair is from the requested dates, summed over both dates
+   */
+  private distanceFromRequested(params: FlightSearchParams, pair: { departDate: string; returnDate?: string }): number {
+    const days = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+    return days(pair.departDate, params.departDate) + (pair.returnDate ? days(pair.returnDate, params.returnDate!) : 0);
+  }
+
+  /**
+   * Dates within ±days of the given date, excluding dates in the past
+   */
+  private buildDateWindow(date: string, days: number): string[] {
+    const earliest = today();
+    const dates: string[] = [];
+
+    for (let offset = -days; offset <= days; offset++) {
+      const candidate = addDays(date, offset);
+      if (candidate >= earliest) {
+        dates.push(candidate);
+      }
+    }
+
+    return dates;
+  }
+
+  /**
+   * Reduce a full search result to its cheapest fare
+   */
+  private toCell(pair: { departDate: string; returnDate?: string }, result: FlightSearchResult): FlexibleDateCell {
+    const hasFlights = result.flights.length > 0;
+
+    return {
+      departDate: pair.departDate,
+      returnDate: pair.returnDate,
+      cheapestPrice: hasFlights ? rankingEngine.getPriceStats(result.flights).min : null,
+      currency: hasFlights ? result.flights[0].currency : undefined,
+      resultsCount: result.totalResults,
+      cacheHit: result.cacheHit,
+      status: result.status,
+    };
+  }
+
+  /**
+   * Map items through an async task with a bounded number in flight
+   * Results keep the order of the input items
+   */
+  private async runWithConcurrency<T, R>(items: T[], task: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await task(items[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, items.length) }, worker));
+    return results;
+  }
+}
@@ -0,0 +1,158 @@
+import { FlightAggregatorService } from './flight-aggregator.service';
+import { AirportsService } from '../airports/airports.service';
+import { FlightItinerary, FlightSearchParams, NormalizedFlight } from '../common/types';
+
+function segment(flightNumber: string, departureTime: string): FlightItinerary['segments'][number] {
+  return {
+    departureAirport: 'LHR',
+    departureTime,
+    arrivalAirport: 'JFK',
+    arrivalTime: departureTime,
+    carrierCode: flightNumber.slice(0, 2),
+    flightNumber,
+    duration: 480,
+  };
+}
+
+function flight(id: string, price: number, itineraries?: FlightItinerary[]): NormalizedFlight {
+  return {
+    id,
+    provider: id.split('_')[0],
+    airline: 'British Airways',
+    airlineCode: 'BA',
+    departureTime: '2026-12-01T10:00:00',
+    arrivalTime: '2026-12-01T13:00:00',
+    duration: 480,
+    stops: 0,
+    price,
+    currency: 'EUR',
+    bookingUrl: `https://example.com/${id}`,
+    tripType: 'one-way',
+    departureAirport: 'LHR',
+    arrivalAirport: 'JFK',
+    departureDate: '2026-12-01',
+    itineraries,
+  };
+}
+
+function itinerary(...segments: FlightItinerary['segments']): FlightItinerary[] {
+  return [{ direction: 'outbound', duration: 480, segments, stops: segments.length - 1 }];
+}
+
+describe('FlightAggregatorService', () => {
+  // mergeOffers uses no dependencies or state, so the service isn't wired up
+  const service: FlightAggregatorService = Object.create(FlightAggregatorService.prototype);
+  const mergeOffers = (flights: NormalizedFlight[]) => service['mergeOffers'](flights);
+
+  describe('mergeOffers', () => {
+    it('merges the same itinerary from several providers into one flight, cheapest offer first', () => {
+      const merged = mergeOffers([
+        flight('amadeus_1', 420, itinerary(segment('BA117', '2026-12-01T10:00:00'))),
+        flight('kiwi_1', 399, itinerary(segment('BA117', '2026-12-01T10:00:00'))),
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].id).toBe('kiwi_1');
+      expect(merged[0].price).toBe(399);
+      expect(merged[0].offers!.map((offer) => [offer.id, offer.price, offer.bookingUrl])).toEqual([
+        ['kiwi_1', 399, 'https://example.com/kiwi_1'],
+        ['amadeus_1', 420, 'https://example.com/amadeus_1'],
+      ]);
+    });
+
+    it('matches flight numbers however providers format them', () => {
+      const merged = mergeOffers([
+        flight('amadeus_1', 420, itinerary(segment('BA 0117', '2026-12-01T10:00:00'))),
+        flight('kiwi_1', 399, itinerary(segment('ba117', '2026-12-01T10:05:00'))),
+      ]);
+
+      expect(merged).toHaveLength(1);
+    });
+
+    it('matches round trips however providers split the directions', () => {
+      const outbound = segment('BA117', '2026-12-01T10:00:00');
+      const inbound = segment('BA114', '2026-12-08T18:00:00');
+      const split: FlightItinerary[] = [
+        { direction: 'outbound', duration: 480, segments: [outbound], stops: 0 },
+        { direction: 'inbound', duration: 420, segments: [inbound], stops: 0 },
+      ];
+
+      const merged = mergeOffers([flight('amadeus_1', 800, split), flight('kiwi_1', 780, itinerary(outbound, inbound))]);
+
+      expect(merged).toHaveLength(1);
+    });
+
+    it('keeps different itineraries apart', () => {
+      const merged = mergeOffers([
+        flight('amadeus_1', 420, itinerary(segment('BA117', '2026-12-01T10:00:00'))),
+        flight('amadeus_2', 430, itinerary(segment('BA117', '2026-12-02T10:00:00'))),
+        flight('kiwi_1', 399, itinerary(segment('BA175', '2026-12-01T10:00:00'))),
+        flight('kiwi_2', 350, itinerary(segment('BA117', '2026-12-01T10:00:00'), segment('AA100', '2026-12-01T18:00:00'))),
+      ]);
+
+      expect(merged).toHaveLength(4);
+      expect(merged.every((f) => f.offers!.length === 1)).toBe(true);
+    });
+
+    it('falls back to airline and exact times for flights without segments', () => {
+      const merged = mergeOffers([
+        flight('amadeus_1', 420),
+        flight('kiwi_1', 399),
+        { ...flight('kiwi_2', 380), departureTime: '2026-12-01T11:00:00' },
+      ]);
+
+      expect(merged.map((f) => f.offers!.map((offer) => offer.id))).toEqual([['kiwi_1', 'amadeus_1'], ['kiwi_2']]);
+    });
+  });
+
+  describe('validateSearchParams', () => {
+    let validator: FlightAggregatorService;
+    const search = (overrides: Partial<FlightSearchParams>): FlightSearchParams => ({
+      from: 'LHR',
+      to: 'JFK',
+      departDate: '2099-06-01',
+      tripType: 'one-way',
+      passengers: 1,
+      ...overrides,
+    });
+
+    beforeAll(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      // Only the airport dataset and the currency check are needed
+      validator = Object.create(FlightAggregatorService.prototype, {
+        airportsService: { value: new AirportsService() },
+        fxService: { value: { isSupported: () => true } },
+      });
+    });
+
+    afterAll(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('accepts known airports and metro codes', () => {
+      expect(validator.validateSearchParams(search({})).errors).toEqual([]);
+      expect(validator.validateSearchParams(search({ from: 'lon', to: 'NYC' })).errors).toEqual([]);
+    });
+
+    it('rejects codes that are not in the airport dataset', () => {
+      expect(validator.validateSearchParams(search({ from: 'XXX', to: '123' })).errors).toEqual([
+        'Unknown departure airport code: XXX',
+        'Unknown arrival airport code: 123',
+      ]);
+    });
+
+    it('rejects routes where both ends cover the same airport', () => {
+      expect(validator.validateSearchParams(search({ from: 'LON', to: 'LHR' })).errors).toEqual([
+        'Departure and arrival airports must differ',
+      ]);
+    });
+
+    it('checks the return leg of open-jaw trips', () => {
+      const result = validator.validateSearchParams(
+        search({ tripType: 'round-trip', returnDate: '2099-06-10', returnFrom: 'XXX' }),
+      );
+
+      expect(result.errors).toEqual(['Unknown departure airport code: XXX for the return leg']);
+    });
+  });
+});
@@ -1,11 +1,35 @@
 import { Injectable } from '@nestjs/common';
-import { IFlightProvider } from '../providers/base.provider';
-import { AmadeusProvider } from '../providers/amadeus.provider';
-// import { DemoProvider } from '../providers/demo.provider';
-// import { KiwiProvider } from '../providers/kiwi.provider';
-import { FlightSearchParams, FlightSearchResult, NormalizedFlight, ProviderStatus } from '../common/types';
+import { randomUUID } from 'crypto';
+import { Observable } from 'rxjs';
+import { ProviderRegistry } from '../providers/provider.registry';
+import {
+  CheapestDateFare,
+  CheapestDatesRequest,
+  FlightOffer,
+  FlightSearchParams,
+  FlightSearchResult,
+  FlightSegment,
+  NormalizedFlight,
+  PriceBasis,
+  PriceInsight,
+  ProviderSearchUpdate,
+  ProviderStatus,
+  Region,
+  SearchStreamEvent,
+} from '../common/types';
 import { rankingEngine } from '../ranking/ranking.engine';
+import { getComparablePrice } from '../ranking/price-basis';
+import { getReturnRoute } from '../common/trip.utils';
 import { CacheService } from '../cache/cache.service';
+import { buildProviderCacheKey, buildSearchCacheKey } from '../cache/search-cache-keys';
+import { SearchSessionService } from './search-session.service';
+import { stripRawOffers } from './raw-offers';
+import { ProviderPolicyService } from '../resilience/provider-policy.service';
+import { CircuitOpenError, ProviderTimeoutError } from '../resilience/resilience.errors';
+import { AirportsService } from '../airports/airports.service';
+import { FxService } from '../fx/fx.service';
+import { FxRateUnavailableError } from '../fx/fx.errors';
+import { PriceHistoryService } from '../price-history/price-history.service';
 
 /**
  * Flight Aggregator Service
@@ -14,75 +38,324 @@ import { CacheService } from '../cache/cache.service';
  */
 @Injectable()
 export class FlightAggregatorService {
-  private providers: Map<string, IFlightProvider> = new Map();
+  // How long past its TTL a cached search may still be served while it is refreshed
+  private readonly staleTtlSeconds = parseInt(process.env.SEARCH_CACHE_STALE_SECONDS || '300');
+  // Cache keys with a background refresh in flight
+  private revalidating = new Set<string>();
+  // How long one instance may hold a search before others stop waiting for it
+  private readonly searchLockTtlSeconds = parseInt(process.env.SEARCH_LOCK_TTL_SECONDS || '15');
+  // Provider fan-outs running in this instance, by cache key
+  private inFlight = new Map<string, Promise<FlightSearchResult>>();
+  // Nearby-airport searches: default radius, most airport pairs searched, and
+  // the distance weight used when the request doesn't set one
+  private readonly nearbyRadiusKm = parseInt(process.env.NEARBY_AIRPORTS_RADIUS_KM || '100');
+  private readonly nearbyMaxSearches = parseInt(process.env.NEARBY_AIRPORTS_MAX_SEARCHES || '6');
+  private readonly nearbyDistanceWeight = parseFloat(process.env.NEARBY_AIRPORTS_DISTANCE_WEIGHT || '0.1');
+
+  constructor(
+    private cacheService: CacheService,
+    private searchSessionService: SearchSessionService,
+    private providerPolicyService: ProviderPolicyService,
+    private providerRegistry: ProviderRegistry,
+    private airportsService: AirportsService,
+    private fxService: FxService,
+    private priceHistoryService: PriceHistoryService,
+  ) {}
 
-  constructor(private cacheService: CacheService) {
-    this.initializeProviders();
+  /**
+   * Search for flights across all providers
+   * By default the ranked result is kept in a search session and tagged with
+   * its searchId; internal callers that never page can skip that
+   */
+  async searchFlights(
+    params: FlightSearchParams,
+    options: { session?: boolean } = {},
+  ): Promise<FlightSearchResult> {
+    const result = await this.runSearch(params);
+    return options.session === false
+      ? { ...result, flights: stripRawOffers(result.flights) }
+      : this.searchSessionService.create(result);
   }
 
   /**
-   * Initialize all available providers
+   * Stream a search over Server-Sent Events
+   * Emits a `provider` event as each provider resolves, then a `complete`
+   * event with the same aggregate result searchFlights returns
+   * Every event uses one searchId, so booking URLs go through the tracked
+   * redirect from the first event on
    */
-  private initializeProviders(): void {
-    const amadeusKey = process.env.AMADEUS_API_KEY;
-    const amadeusSecret = process.env.AMADEUS_API_SECRET;
-    const kiwiKey = process.env.KIWI_API_KEY;
-
-    console.log('[INIT] AMADEUS_API_KEY present:', !!amadeusKey, amadeusKey ? `(length: ${amadeusKey.length})` : '');
-    console.log('[INIT] AMADEUS_API_SECRET present:', !!amadeusSecret, amadeusSecret ? `(length: ${amadeusSecret.length})` : '');
-    console.log('[INIT] KIWI_API_KEY present:', !!kiwiKey);
-
-    // Amadeus provider
-    if (amadeusKey && amadeusSecret) {
-      console.log('[INIT] Registering Amadeus provider...');
-      this.registerProvider(new AmadeusProvider(amadeusKey, amadeusSecret));
-    } else {
-      console.error('[INIT] AMADEUS_API_KEY and AMADEUS_API_SECRET are required');
-    }
-
-    // Kiwi provider temporarily disabled
-    // if (kiwiKey) {
-    //   this.registerProvider(new KiwiProvider(kiwiKey));
-    // }
-
-    console.log(`[INIT] Initialized ${this.providers.size} flight providers`);
-    console.log('[INIT] Available providers:', Array.from(this.providers.keys()));
+  streamSearch(params: FlightSearchParams): Observable<SearchStreamEvent> {
+    return new Observable<SearchStreamEvent>((subscriber) => {
+      const searchId = randomUUID();
+      // Provider events are stored one at a time, in the order they arrive
+      let providerEvents = Promise.resolve();
+
+      this.runSearch(params, (update) => {
+        providerEvents = providerEvents
+          .then(() => this.searchSessionService.addOffers(searchId, params, update.flights))
+          .then((flights) => subscriber.next({ type: 'provider', data: { ...update, flights } }))
+          .catch((error) => console.error('[AGGREGATOR] Failed to store streamed offers:', error));
+      })
+        .then(async (result) => {
+          await providerEvents;
+          return this.searchSessionService.create(result, searchId);
+        })
+        .then((result) => {
+          subscriber.next({ type: 'complete', data: result });
+          subscriber.complete();
+        })
+        .catch((error) => {
+          console.error('[AGGREGATOR] Stream search error:', error);
+          subscriber.next({
+            type: 'error',
+            data: { message: error instanceof Error ? error.message : 'Unknown error' },
+          });
+          subscriber.complete();
+        });
+    });
   }
 
   /**
-   * Register a new provider
+   * Run a search (or serve it from cache) without creating a session
+   * onProviderResult is called as each provider resolves (not on cache hits,
+   * or when the search joins one that is already running)
+   * refresh skips the aggregated result cache, e.g. to repopulate a stale entry
+   * Nearby-airport searches run one search per airport pair (see runNearbySearch)
    */
-  registerProvider(provider: IFlightProvider): void {
-    this.providers.set(provider.name, provider);
+  private async runSearch(
+    params: FlightSearchParams,
+    onProviderResult?: (update: ProviderSearchUpdate) => void,
+    options: { refresh?: boolean } = {},
+  ): Promise<FlightSearchResult> {
+    // Resolve the currency up front so providers, the cache key and the result agree on it
+    params = {
+      ...params,
+      currency: (params.currency || this.fxService.defaultCurrency).toUpperCase(),
+      // Rank on the same price basis maxPrice uses, unless the ranking options set their own
+      ranking: { ...params.ranking, priceBasis: params.ranking?.priceBasis ?? params.priceBasis },
+    };
+
+    console.log('[AGGREGATOR] Incoming search request:', JSON.stringify(params, null, 2));
+
+    if (params.includeNearbyAirports && params.tripType !== 'multi-city') {
+      return this.runNearbySearch(params);
+    }
+
+    // Check cache first
+    const cacheKey = this.generateCacheKey(params);
+    const cached = options.refresh ? null : await this.cacheService.getWithStale<FlightSearchResult>(cacheKey);
+
+    if (cached) {
+      const cachedResult = cached.value;
+      console.log(`[AGGREGATOR] ${cached.stale ? 'Stale cache' : 'Cache'} hit for key:`, cacheKey);
+
+      if (cached.stale) {
+        this.revalidate(params, cacheKey);
+      }
+
+      return { ...this.reuseResult(cachedResult, params), ...(cached.stale && { stale: true }) };
+    }
+
+    // Identical searches share one provider fan-out
+    const running = this.inFlight.get(cacheKey);
+    if (running) {
+      console.log('[AGGREGATOR] Joining in-flight search for key:', cacheKey);
+      return this.reuseResult(await running, params);
+    }
+
+    const search = this.runLeaderSearch(params, cacheKey, onProviderResult);
+    this.inFlight.set(cacheKey, search);
+
+    try {
+      return await search;
+    } finally {
+      this.inFlight.delete(cacheKey);
+    }
   }
 
   /**
-   * Get all registered providers
+   * Search the requested route plus routes from and to nearby airports, in parallel
+   * Each airport pair is an ordinary search (cached on its own); flights are
+   * tagged with their airports' distance from the requested ones and ranked
+   * together, with that distance as a score component
+   * Streams don't get provider events: updates from several routes can't be
+   * diffed into one result
+   * Pairs beyond NEARBY_AIRPORTS_MAX_SEARCHES are skipped and reported in nearbyAirports
    */
-  getProviders(): string[] {
-    return Array.from(this.providers.keys());
+  private async runNearbySearch(params: FlightSearchParams): Promise<FlightSearchResult> {
+    const radiusKm = params.nearbyRadiusKm ?? this.nearbyRadiusKm;
+    const origins = this.airportsService.findNearby(params.from, radiusKm);
+    const destinations = this.airportsService.findNearby(params.to, radiusKm);
+
+    // Closest pairs first; the requested pair has distance 0 so is always searched
+    const candidates = [{ code: params.from, distanceKm: 0 }, ...origins]
+      .flatMap((origin) =>
+        [{ code: params.to, distanceKm: 0 }, ...destinations].map((destination) => ({ origin, destination })),
+      )
+      .filter(({ origin, destination }) => {
+        const originAirports = this.airportsService.expandCode(origin.code);
+        return !this.airportsService.expandCode(destination.code).some((code) => originAirports.includes(code));
+      })
+      .sort((a, b) => a.origin.distanceKm + a.destination.distanceKm - (b.origin.distanceKm + b.destination.distanceKm));
+    const pairs = candidates.slice(0, this.nearbyMaxSearches);
+    const skippedSearches = candidates.length - pairs.length;
+
+    console.log(`[AGGREGATOR] Searching ${pairs.length} airport pairs within ${radiusKm}km of ${params.from} -> ${params.to}`);
+    if (skippedSearches > 0) {
+      console.warn(`[AGGREGATOR] Skipping ${skippedSearches} airport pairs over NEARBY_AIRPORTS_MAX_SEARCHES=${this.nearbyMaxSearches}`);
+    }
+
+    const results = await Promise.all(
+      pairs.map(({ origin, destination }) =>
+        this.runSearch({ ...params, from: origin.code, to: destination.code, includeNearbyAirports: false }),
+      ),
+    );
+
+    const flights = results.flatMap((result, index) =>
+      result.flights.map((flight) => ({
+        ...flight,
+        airportDistance: { originKm: pairs[index].origin.distanceKm, destinationKm: pairs[index].destination.distanceKm },
+      })),
+    );
+
+    const ranking = {
+      ...params.ranking,
+      weights: { airportDistance: this.nearbyDistanceWeight, ...params.ranking?.weights },
+    };
+    const rankedFlights = rankingEngine.rankFlights(flights, ranking);
+
+    const statuses = results.map((result) => result.status);
+    const status = statuses.every((s) => s === 'success') ? 'success' : statuses.some((s) => s !== 'error') ? 'partial' : 'error';
+    const searched = new Set(pairs.flatMap(({ origin, destination }) => [origin.code, destination.code]));
+
+    return {
+      status,
+      query: { ...params, ranking },
+      flights: rankedFlights,
+      totalResults: rankedFlights.length,
+      providersQueried: this.combineProviderStatuses(results.flatMap((result) => result.providersQueried)),
+      timestamp: new Date().toISOString(),
+      cacheHit: results.every((result) => result.cacheHit),
+      ...(results.some((result) => result.stale) && { stale: true }),
+      // Price history is per route, so only the requested route's insight applies
+      priceInsight: results[0]?.priceInsight,
+      facets: rankingEngine.getFacets(rankedFlights, { priceBasis: params.priceBasis }),
+      nearbyAirports: {
+        origin: origins.filter((airport) => searched.has(airport.code)),
+        destination: destinations.filter((airport) => searched.has(airport.code)),
+        skipped: {
+          origin: origins.filter((airport) => !searched.has(airport.code)),
+          destination: destinations.filter((airport) => !searched.has(airport.code)),
+        },
+        skippedSearches,
+      },
+    };
   }
 
   /**
-   * Search for flights across all providers
+   * One status per provider across several searches
+   * A provider counts as successful only if it succeeded in every search
    */
-  async searchFlights(params: FlightSearchParams): Promise<FlightSearchResult> {
-    const startTime = Date.now();
+  private combineProviderStatuses(statuses: ProviderStatus[]): ProviderStatus[] {
+    const combined = new Map<string, ProviderStatus>();
+
+    for (const status of statuses) {
+      const current = combined.get(status.name);
+      if (!current) {
+        combined.set(status.name, { ...status });
+        continue;
+      }
 
-    console.log('[AGGREGATOR] Incoming search request:', JSON.stringify(params, null, 2));
+      current.resultsCount += status.resultsCount;
+      current.responseTime = Math.max(current.responseTime, status.responseTime);
+      current.cached = current.cached && status.cached;
+      if (current.status === 'success' && status.status !== 'success') {
+        current.status = status.status;
+        current.error = status.error;
+      }
+    }
 
-    // Check cache first
-    const cacheKey = this.generateCacheKey(params);
-    const cachedResult = await this.cacheService.get<FlightSearchResult>(cacheKey);
+    return Array.from(combined.values());
+  }
 
-    if (cachedResult) {
-      console.log('[AGGREGATOR] Cache hit for key:', cacheKey);
-      return {
-        ...JSON.parse(JSON.stringify(cachedResult)),
-        cacheHit: true,
-      } as FlightSearchResult;
+  /**
+   * Query providers unless another instance already is
+   * The Redis lock makes other instances wait for the holder's cached result;
+   * they search themselves if it isn't cached by the time the lock goes away
+   */
+  private async runLeaderSearch(
+    params: FlightSearchParams,
+    cacheKey: string,
+    onProviderResult?: (update: ProviderSearchUpdate) => void,
+  ): Promise<FlightSearchResult> {
+    const lockKey = `lock:${cacheKey}`;
+    const token = await this.cacheService.acquireLock(lockKey, this.searchLockTtlSeconds);
+
+    if (!token) {
+      console.log('[AGGREGATOR] Waiting for another instance to finish search for key:', cacheKey);
+      const shared = await this.waitForCachedResult(cacheKey, lockKey);
+      if (shared) {
+        return this.reuseResult(shared, params);
+      }
+    }
+
+    try {
+      return await this.fetchResults(params, cacheKey, onProviderResult);
+    } finally {
+      if (token) {
+        await this.cacheService.releaseLock(lockKey, token);
+      }
+    }
+  }
+
+  /**
+   * Poll Redis until a result appears or the lock is released or expires
+   * The holder writes to Redis, so the local tier is skipped while polling
+   */
+  private async waitForCachedResult(cacheKey: string, lockKey: string): Promise<FlightSearchResult | null> {
+    const deadline = Date.now() + this.searchLockTtlSeconds * 1000;
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const result = await this.cacheService.getShared<FlightSearchResult>(cacheKey);
+      if (result) {
+        return result;
+      }
+      if (!(await this.cacheService.isLocked(lockKey))) {
+        // Released without a cached result (e.g. partial); one last look in case it just landed
+        return this.cacheService.getShared<FlightSearchResult>(cacheKey);
+      }
     }
 
+    return null;
+  }
+
+  /**
+   * A cached or shared result, as a response to this request
+   * Results are shared across ranking profiles, so rank for this request
+   */
+  private reuseResult(result: FlightSearchResult, params: FlightSearchParams): FlightSearchResult {
+    return {
+      ...result,
+      query: params,
+      flights: rankingEngine.rankFlights(result.flights, params.ranking),
+      // Facet prices depend on the price basis, which isn't part of the cache key
+      facets: rankingEngine.getFacets(result.flights, { priceBasis: params.priceBasis }),
+      cacheHit: true,
+    };
+  }
+
+  /**
+   * Query every selected provider, then merge, rank and cache the result
+   */
+  private async fetchResults(
+    params: FlightSearchParams,
+    cacheKey: string,
+    onProviderResult?: (update: ProviderSearchUpdate) => void,
+  ): Promise<FlightSearchResult> {
+    const startTime = Date.now();
+
     // Determine which providers to query
     const providersToQuery = this.selectProviders(params);
 
@@ -101,49 +374,84 @@ export class FlightAggregatorService {
       };
     }
 
-    // Query all providers in parallel
-    const results = await Promise.allSettled(
-      providersToQuery.map((providerName) => this.queryProvider(providerName, params)),
-    );
-
-    // Process results
+    // Query all providers in parallel, handling each one as soon as it resolves
     const aggregatedFlights: NormalizedFlight[] = [];
-    const providerStatuses: ProviderStatus[] = [];
-
-    results.forEach((result, index) => {
-      const providerName = providersToQuery[index];
-      const resultTime = Date.now() - startTime;
-
-      if (result.status === 'fulfilled') {
-        const { flights, error } = result.value;
-
-        if (flights.length > 0) {
-          aggregatedFlights.push(...flights);
+    const providerStatuses: ProviderStatus[] = new Array(providersToQuery.length);
+    // Itinerary signature -> what the client last received for it
+    const streamed = new Map<string, { id: string; offers: string }>();
+
+    await Promise.allSettled(
+      providersToQuery.map(async (providerName, index) => {
+        let providerStatus: ProviderStatus;
+
+        try {
+          const { flights: quoted, error, status, cached } = await this.queryProvider(providerName, params);
+          // Ranking, dedupe and maxPrice all compare prices, so they must share a currency
+          const flights = this.convertFlights(quoted, params.currency!, params.maxPrice, params.priceBasis);
+
+          if (flights.length > 0) {
+            aggregatedFlights.push(...flights);
+          }
+
+          providerStatus = {
+            name: providerName,
+            status: status || (error ? 'error' : 'success'),
+            resultsCount: flights.length,
+            error,
+            responseTime: Date.now() - startTime,
+            cached,
+          };
+        } catch (error) {
+          providerStatus = {
+            name: providerName,
+            status: 'error',
+            resultsCount: 0,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            responseTime: Date.now() - startTime,
+          };
         }
 
-        providerStatuses.push({
-          name: providerName,
-          status: error ? 'error' : 'success',
-          resultsCount: flights.length,
-          error,
-          responseTime: resultTime,
-        });
-      } else {
-        providerStatuses.push({
-          name: providerName,
-          status: 'error',
-          resultsCount: 0,
-          error: result.reason?.message || 'Unknown error',
-          responseTime: resultTime,
-        });
-      }
-    });
+        // Keep statuses in query order regardless of which provider answers first
+        providerStatuses[index] = providerStatus;
+
+        if (onProviderResult) {
+          // Re-rank everything received so far and only send flights that are new or gained offers
+          const rankedSoFar = rankingEngine.rankFlights(this.mergeOffers(aggregatedFlights), params.ranking);
+          const changedFlights: NormalizedFlight[] = [];
+          const removedIds: string[] = [];
+
+          for (const flight of rankedSoFar) {
+            const signature = this.getItinerarySignature(flight);
+            const offers = (flight.offers || []).map((o) => `${o.id}:${o.price}`).join(',');
+            const previous = streamed.get(signature);
+
+            if (previous && previous.offers === offers) {
+              continue;
+            }
+            if (previous && previous.id !== flight.id) {
+              removedIds.push(previous.id);
+            }
+
+            streamed.set(signature, { id: flight.id, offers });
+            changedFlights.push(flight);
+          }
+
+          // Raw offers are kept so streamed offers can be re-priced; streamSearch strips them
+          onProviderResult({
+            provider: providerStatus,
+            flights: changedFlights,
+            removedIds,
+            totalResults: rankedSoFar.length,
+          });
+        }
+      }),
+    );
 
-    // Deduplicate flights by important fields
-    const deduplicatedFlights = this.deduplicateFlights(aggregatedFlights);
+    // Merge the same itinerary sold by several providers into one flight
+    const mergedFlights = this.mergeOffers(aggregatedFlights);
 
     // Rank flights
-    const rankedFlights = rankingEngine.rankFlights(deduplicatedFlights);
+    const rankedFlights = rankingEngine.rankFlights(mergedFlights, params.ranking);
 
     // Determine overall status
     const allSuccess = providerStatuses.every((s) => s.status === 'success');
@@ -157,23 +465,147 @@ export class FlightAggregatorService {
       providersQueried: providerStatuses,
       timestamp: new Date().toISOString(),
       cacheHit: false,
+      priceInsight: await this.getPriceInsight(params, rankedFlights),
+      facets: rankingEngine.getFacets(rankedFlights, { priceBasis: params.priceBasis }),
     };
 
-    // Cache the result (without cacheHit flag for storage)
-    const cacheData = { ...searchResult, cacheHit: false };
-    await this.cacheService.set(cacheKey, cacheData, 600); // Cache for 10 minutes
+    // Record after the insight so a search isn't compared against itself; don't hold up the response
+    this.priceHistoryService
+      .record(searchResult)
+      .catch((error) => console.error('[AGGREGATOR] Failed to record price history:', error));
+
+    // Partial results aren't cached so a failed provider is retried next time;
+    // the providers that answered are reused from their own cache entries
+    const ttl = Math.min(...providersToQuery.map((name) => this.providerRegistry.getCacheTtl(name)));
+    if (status === 'success' && ttl > 0) {
+      await this.cacheService.set(cacheKey, searchResult, ttl, this.staleTtlSeconds);
+    }
 
     return searchResult;
   }
 
+  /**
+   * Refresh a stale cached search in the background
+   * At most one refresh per cache key runs at a time
+   */
+  private revalidate(params: FlightSearchParams, cacheKey: string): void {
+    if (this.revalidating.has(cacheKey)) {
+      return;
+    }
+    this.revalidating.add(cacheKey);
+
+    this.runSearch(params, undefined, { refresh: true })
+      .catch((error) => console.error(`[AGGREGATOR] Background refresh failed for ${cacheKey}:`, error))
+      .finally(() => this.revalidating.delete(cacheKey));
+  }
+
+  /**
+   * Rate the cheapest fare against price history
+   * History is best-effort: a database problem shouldn't fail the search
+   */
+  private async getPriceInsight(params: FlightSearchParams, flights: NormalizedFlight[]): Promise<PriceInsight | undefined> {
+    if (flights.length === 0) {
+      return undefined;
+    }
+
+    try {
+      const cheapest = rankingEngine.getPriceStats(flights).min;
+      return await this.priceHistoryService.getInsight(params, cheapest, params.currency!);
+    } catch (error) {
+      console.error('[AGGREGATOR] Failed to load price insight:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Ask every provider with a cheapest-dates API for fares on a route
+   * Returns the cheapest fare per date across providers
+   */
+  async findCheapestDates(request: CheapestDatesRequest): Promise<CheapestDateFare[]> {
+    const capable = this.providerRegistry.getEnabledProviders(this.getRouteRegions(request)).filter((p) => p.findCheapestDates);
+    const currency = (request.currency || this.fxService.defaultCurrency).toUpperCase();
+
+    const results = await Promise.allSettled(
+      capable.map((provider) =>
+        this.providerPolicyService.execute(provider.name, () => provider.findCheapestDates!(request)),
+      ),
+    );
+
+    const cheapestByDate = new Map<string, CheapestDateFare>();
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error fetching cheapest dates from ${capable[index].name}:`, result.reason);
+        return;
+      }
+
+      for (const rawFare of result.value) {
+        const fare = this.convertFare(rawFare, currency);
+        if (!fare) {
+          continue;
+        }
+
+        const current = cheapestByDate.get(fare.date);
+        if (!current || fare.price < current.price) {
+          cheapestByDate.set(fare.date, fare);
+        }
+      }
+    });
+
+    return Array.from(cheapestByDate.values());
+  }
+
+  /**
+   * Convert provider flights to the requested currency and apply maxPrice on the price basis
+   * Flights with no known exchange rate are dropped rather than ranked on a wrong price
+   */
+  private convertFlights(
+    flights: NormalizedFlight[],
+    currency: string,
+    maxPrice?: number,
+    priceBasis?: PriceBasis,
+  ): NormalizedFlight[] {
+    const converted: NormalizedFlight[] = [];
+
+    for (const flight of flights) {
+      try {
+        const priced = this.fxService.convertFlight(flight, currency);
+        if (!maxPrice || getComparablePrice(priced, priceBasis) <= maxPrice) {
+          converted.push(priced);
+        }
+      } catch (error) {
+        if (!(error instanceof FxRateUnavailableError)) {
+          throw error;
+        }
+        console.warn(`[AGGREGATOR] Dropping flight ${flight.id}: ${error.message}`);
+      }
+    }
+
+    return converted;
+  }
+
+  /**
+   * Convert a cheapest-date fare, or null when no exchange rate is known
+   */
+  private convertFare(fare: CheapestDateFare, currency: string): CheapestDateFare | null {
+    try {
+      return { ...fare, price: this.fxService.convert(fare.price, fare.currency, currency), currency };
+    } catch (error) {
+      if (!(error instanceof FxRateUnavailableError)) {
+        throw error;
+      }
+      console.warn(`[AGGREGATOR] Dropping ${fare.provider} fare for ${fare.date}: ${error.message}`);
+      return null;
+    }
+  }
+
   /**
    * Query a specific provider
    */
   private async queryProvider(
     providerName: string,
     params: FlightSearchParams,
-  ): Promise<{ flights: NormalizedFlight[]; error?: string }> {
-    const provider = this.providers.get(providerName);
+  ): Promise<{ flights: NormalizedFlight[]; error?: string; status?: ProviderStatus['status']; cached?: boolean }> {
+    const provider = this.providerRegistry.get(providerName);
 
     if (!provider) {
       return {
@@ -189,14 +621,34 @@ export class FlightAggregatorService {
       };
     }
 
+    // Provider results are cached in the provider's currency, before conversion and maxPrice
+    const cacheKey = buildProviderCacheKey(providerName, params);
+    const cachedFlights = await this.cacheService.get<NormalizedFlight[]>(cacheKey);
+    if (cachedFlights) {
+      console.log(`[AGGREGATOR] Provider cache hit for ${providerName}`);
+      return { flights: cachedFlights, cached: true };
+    }
+
     try {
-      const flights = await provider.search(params);
+      const flights = await this.providerPolicyService.execute(providerName, () => provider.search(params));
+
+      const ttl = this.providerRegistry.getCacheTtl(providerName);
+      if (ttl > 0) {
+        await this.cacheService.set(cacheKey, flights, ttl);
+      }
+
       return { flights };
     } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        console.warn(`[AGGREGATOR] Skipping provider ${providerName}: circuit open`);
+        return { flights: [], error: error.message, status: 'circuit-open' };
+      }
+
       console.error(`Error querying provider ${providerName}:`, error);
       return {
         flights: [],
         error: error instanceof Error ? error.message : 'Unknown error',
+        status: error instanceof ProviderTimeoutError ? 'timeout' : 'error',
       };
     }
   }
@@ -205,58 +657,103 @@ export class FlightAggregatorService {
    * Select which providers to query
    */
   private selectProviders(params: FlightSearchParams): string[] {
+    // Enabled providers configured for the route's regions, in priority order
+    const available = this.providerRegistry.getEnabledProviders(this.getRouteRegions(params)).map((p) => p.name);
+
     if (params.includeProviders && params.includeProviders.length > 0) {
       // User specified providers
-      return params.includeProviders.filter((p) => this.providers.has(p));
+      return params.includeProviders.filter((p) => available.includes(p));
     }
 
-    // Return all available providers
-    return Array.from(this.providers.keys());
+    return available;
   }
 
   /**
-   * Deduplicate flights from different providers
-   * Flights are considered duplicates if they have:
-   * - Same departure and arrival times (within 5 minutes)
-   * - Same airline
-   * - Similar price (within 2%)
+   * Regions (continents) of every airport a trip touches
    */
-  private deduplicateFlights(flights: NormalizedFlight[]): NormalizedFlight[] {
-    const seen = new Set<string>();
-    const deduped: NormalizedFlight[] = [];
-
-    // Sort by ranking score (if available) to keep better results
-    const sorted = [...flights].sort((a, b) => (b.rankingScore || 0) - (a.rankingScore || 0));
-
-    for (const flight of sorted) {
-      const signature = this.getFlightSignature(flight);
+  private getRouteRegions(
+    params: Pick<FlightSearchParams, 'from' | 'to'> & Partial<Pick<FlightSearchParams, 'returnFrom' | 'returnTo' | 'segments'>>,
+  ): Region[] {
+    const codes = [
+      params.from,
+      params.to,
+      params.returnFrom,
+      params.returnTo,
+      ...(params.segments || []).flatMap((segment) => [segment.from, segment.to]),
+    ].filter((code): code is string => !!code);
+
+    return [...new Set(codes.flatMap((code) => this.airportsService.getRegions(code)))];
+  }
 
-      if (!seen.has(signature)) {
-        seen.add(signature);
-        deduped.push(flight);
+  /**
+   * Merge offers for the same itinerary from different providers
+   * Each merged flight keeps every provider's price and booking link in
+   * `offers` (cheapest first) and takes its top-level fields from the cheapest
+   */
+  private mergeOffers(flights: NormalizedFlight[]): NormalizedFlight[] {
+    const groups = new Map<string, NormalizedFlight[]>();
+
+    for (const flight of flights) {
+      const signature = this.getItinerarySignature(flight);
+      const group = groups.get(signature);
+      if (group) {
+        group.push(flight);
+      } else {
+        groups.set(signature, [flight]);
       }
     }
 
-    return deduped;
+    return Array.from(groups.values()).map((group) => {
+      const offers: FlightOffer[] = group
+        .map((flight) => ({
+          id: flight.id,
+          provider: flight.provider,
+          price: flight.price,
+          currency: flight.currency,
+          originalPrice: flight.originalPrice,
+          originalCurrency: flight.originalCurrency,
+          bookingUrl: flight.bookingUrl,
+          rawOffer: flight.rawOffer,
+        }))
+        .sort((a, b) => a.price - b.price);
+
+      const cheapest = group.find((flight) => flight.id === offers[0].id)!;
+      return { ...cheapest, offers };
+    });
   }
 
   /**
-   * Generate a signature for a flight to detect duplicates
+   * Identify an itinerary by its marketing flight numbers and departure dates
+   * in order, e.g. "BA117@2026-12-01|BA114@2026-12-08"
+   * Legs are flattened so the signature doesn't depend on how a provider splits directions
+   * Flights without segment details fall back to airline and exact times
    */
-  private getFlightSignature(flight: NormalizedFlight): string {
-    // Create a signature based on key flight attributes
-    // This is a simple approach; production might use more sophisticated matching
-    const depTime = new Date(flight.departureTime);
-    const arrTime = new Date(flight.arrivalTime);
+  private getItinerarySignature(flight: NormalizedFlight): string {
+    const segments = (flight.itineraries || []).flatMap((itin) => itin.segments);
+    if (segments.length === 0) {
+      return `${flight.airlineCode}_${flight.departureTime}_${flight.arrivalTime}_${flight.stops}`;
+    }
+
+    return segments
+      .map((seg) => `${this.normalizeFlightNumber(seg.flightNumber)}@${seg.departureTime.slice(0, 10)}`)
+      .join('|');
+  }
 
-    return `${flight.departureAirport}_${flight.arrivalAirport}_${flight.airlineCode}_${depTime.getHours()}_${arrTime.getHours()}_${Math.round(flight.price / 10)}_${flight.stops}`;
+  /**
+   * Providers format flight numbers differently ("BA 0117" vs "BA117")
+   */
+  private normalizeFlightNumber(flightNumber: string): string {
+    return flightNumber.replace(/\s+/g, '').toUpperCase().replace(/^([A-Z0-9]{2})0+(?=\d)/, '$1');
   }
 
   /**
    * Generate a cache key for search parameters
    */
-  private generateCacheKey(params: FlightSearchParams): string {
-    return `flight_search:${params.from}:${params.to}:${params.departDate}:${params.returnDate || 'oneway'}:${params.passengers}:${params.tripType}`;
+  generateCacheKey(params: FlightSearchParams): string {
+    return buildSearchCacheKey({
+      ...params,
+      currency: (params.currency || this.fxService.defaultCurrency).toUpperCase(),
+    });
   }
 
   /**
@@ -265,12 +762,8 @@ export class FlightAggregatorService {
   validateSearchParams(params: FlightSearchParams): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    if (!params.from || params.from.length !== 3) {
-      errors.push('Invalid departure airport code');
-    }
-
-    if (!params.to || params.to.length !== 3) {
-      errors.push('Invalid arrival airport code');
+    if (params.tripType !== 'multi-city') {
+      errors.push(...this.validateRoute(params.from, params.to));
     }
 
     if (!params.departDate) {
@@ -289,6 +782,23 @@ export class FlightAggregatorService {
       }
     }
 
+    if (params.returnFrom || params.returnTo) {
+      if (params.tripType !== 'round-trip') {
+        errors.push('returnFrom and returnTo are only supported for round-trip');
+      } else {
+        const inbound = getReturnRoute(params);
+        errors.push(...this.validateRoute(inbound.from, inbound.to).map((error) => `${error} for the return leg`));
+      }
+    }
+
+    if (params.tripType === 'multi-city') {
+      errors.push(...this.validateSegments(params.segments));
+    }
+
+    if (params.currency && !this.fxService.isSupported(params.currency)) {
+      errors.push(`Unsupported currency: ${params.currency}`);
+    }
+
     if (!params.passengers || params.passengers < 1 || params.passengers > 9) {
       errors.push('Number of passengers must be between 1 and 9');
     }
@@ -298,4 +808,58 @@ export class FlightAggregatorService {
       errors,
     };
   }
+
+  /**
+   * Validate an origin/destination pair against the airport dataset
+   * Metro codes (LON, NYC) are accepted and passed to providers as-is: Amadeus
+   * and Kiwi both search every airport of an IATA city code themselves.
+   * A route is rejected when both ends cover the same airport, e.g. LON -> LHR
+   */
+  private validateRoute(from?: string, to?: string): string[] {
+    const errors: string[] = [];
+
+    if (!from || !this.airportsService.isKnownCode(from)) {
+      errors.push(from ? `Unknown departure airport code: ${from}` : 'Invalid departure airport code');
+    }
+
+    if (!to || !this.airportsService.isKnownCode(to)) {
+      errors.push(to ? `Unknown arrival airport code: ${to}` : 'Invalid arrival airport code');
+    }
+
+    if (errors.length === 0) {
+      const origins = this.airportsService.expandCode(from!);
+      if (this.airportsService.expandCode(to!).some((code) => origins.includes(code))) {
+        errors.push('Departure and arrival airports must differ');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate multi-city legs
+   * Legs must be in chronological order (same-day legs are allowed)
+   */
+  private validateSegments(segments?: FlightSegment[]): string[] {
+    const errors: string[] = [];
+
+    if (!segments || segments.length < 2 || segments.length > 6) {
+      errors.push('Multi-city searches require between 2 and 6 segments');
+      return errors;
+    }
+
+    segments.forEach((segment, index) => {
+      const leg = index + 1;
+
+      errors.push(...this.validateRoute(segment.from, segment.to).map((error) => `${error} for segment ${leg}`));
+
+      if (!segment.departDate) {
+        errors.push(`Departure date is required for segment ${leg}`);
+      } else if (index > 0 && new Date(segment.departDate) < new Date(segments[index - 1].departDate)) {
+        errors.push(`Segment ${leg} cannot depart before segment ${index}`);
+      }
+    });
+
+    return errors;
+  }
 }
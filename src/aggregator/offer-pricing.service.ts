@@ -0,0 +1,86 @@
+import { BadGatewayException, BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { SearchSessionService } from './search-session.service';
+import { ProviderRegistry } from '../providers/provider.registry';
+import { ProviderPolicyService } from '../resilience/provider-policy.service';
+import { FxService } from '../fx/fx.service';
+import { FxRateUnavailableError } from '../fx/fx.errors';
+import { OfferPriceConfirmation, ProviderPriceQuote } from '../common/types';
+
+/**
+ * Offer Pricing Service
+ * Re-prices an offer from a search session with its provider before the
+ * user is sent off to book, since search prices go stale quickly
+ */
+@Injectable()
+export class OfferPricingService {
+  constructor(
+    private searchSessionService: SearchSessionService,
+    private providerRegistry: ProviderRegistry,
+    private providerPolicyService: ProviderPolicyService,
+    private fxService: FxService,
+  ) {}
+
+  /**
+   * Ask the offer's provider for its current price and availability
+   * Quotes are compared in the provider's currency, so exchange-rate updates
+   * since the search don't show up as a price change
+   */
+  async confirmPrice(searchId: string, offerId: string): Promise<OfferPriceConfirmation> {
+    const stored = await this.searchSessionService.getOffer(searchId, offerId);
+    if (!stored) {
+      throw new NotFoundException(`Offer ${offerId} not found in search ${searchId} or search expired`);
+    }
+
+    const { query, offer } = stored;
+    const provider = this.providerRegistry.get(offer.provider);
+    if (!provider?.confirmPrice || offer.rawOffer === undefined) {
+      throw new BadRequestException(`Provider ${offer.provider} does not support price confirmation`);
+    }
+
+    let quote: ProviderPriceQuote;
+    try {
+      quote = await this.providerPolicyService.execute(provider.name, () => provider.confirmPrice!(offer.rawOffer, query));
+    } catch (error) {
+      throw new BadGatewayException(
+        `Could not confirm price with ${provider.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    const unchanged =
+      quote.currency === (offer.originalCurrency ?? offer.currency) &&
+      Math.abs(quote.price - (offer.originalPrice ?? offer.price)) < 0.01;
+    const price = unchanged ? offer.price : this.convertQuote(quote, offer.currency);
+    const priceDifference = Math.round((price - offer.price) * 100) / 100;
+
+    return {
+      searchId,
+      offerId,
+      provider: provider.name,
+      price,
+      currency: offer.currency,
+      originalPrice: quote.price,
+      originalCurrency: quote.currency,
+      searchPrice: offer.price,
+      priceChanged: !unchanged,
+      priceDifference,
+      seatsLeft: quote.seatsLeft,
+      lastTicketingDate: quote.lastTicketingDate,
+      confirmedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * A re-priced quote in the search's currency
+   * The provider may quote in a currency we have no rate for
+   */
+  private convertQuote(quote: ProviderPriceQuote, currency: string): number {
+    try {
+      return this.fxService.convert(quote.price, quote.currency, currency);
+    } catch (error) {
+      if (error instanceof FxRateUnavailableError) {
+        throw new BadGatewayException(`Could not convert the confirmed price: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable } from '@nestjs/common';
+import { FlightAggregatorService } from './flight-aggregator.service';
+import { CacheService } from '../cache/cache.service';
+import { FlightSearchResult, PriceCalendar, PriceCalendarDay } from '../common/types';
+import { rankingEngine } from '../ranking/ranking.engine';
+import { addDays, today } from '../common/date.utils';
+
+/**
+ * Price Calendar Service
+ * Builds a month view of the cheapest known one-way fare per day
+ * Prices come from cached search results first; for a single passenger,
+ * remaining future days are filled in by providers that offer a cheapest-dates
+ * API (those only price one adult)
+ */
+@Injectable()
+export class PriceCalendarService {
+  constructor(
+    private flightAggregatorService: FlightAggregatorService,
+    private cacheService: CacheService,
+  ) {}
+
+  /**
+   * Get the cheapest fare per day for a route and month (YYYY-MM)
+   * Cached prices are only reused from searches in the same currency
+   */
+  async getCalendar(
+    from: string,
+    to: string,
+    month: string,
+    passengers: number = 1,
+    currency?: string,
+  ): Promise<PriceCalendar> {
+    const dates = this.datesInMonth(month);
+    const earliest = today();
+
+    // Look up cached search results for every day in parallel
+    const days: PriceCalendarDay[] = await Promise.all(
+      dates.map((date) => this.getCachedDay(from, to, date, passengers, currency)),
+    );
+
+    // Fill the remaining (future) gaps from provider cheapest-dates APIs
+    const gaps = passengers === 1 ? days.filter((day) => day.price === null && day.date >= earliest) : [];
+    if (gaps.length > 0) {
+      const fares = await this.flightAggregatorService.findCheapestDates({
+        from,
+        to,
+        startDate: gaps[0].date,
+        endDate: gaps[gaps.length - 1].date,
+        currency,
+      });
+      const faresByDate = new Map(fares.map((fare) => [fare.date, fare]));
+
+      for (const day of gaps) {
+        const fare = faresByDate.get(day.date);
+        if (fare) {
+          day.price = fare.price;
+          day.currency = fare.currency;
+          day.source = 'provider';
+          day.provider = fare.provider;
+        }
+      }
+    }
+
+    const priced = days.filter((day) => day.price !== null);
+    const cheapest = priced.length > 0
+      ? priced.reduce((best, day) => (day.price! < best.price! ? day : best))
+      : null;
+
+    return {
+      from,
+      to,
+      month,
+      days,
+      cheapest,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Cheapest price for a day from the one-way search cache, if any
+   */
+  private async getCachedDay(
+    from: string,
+    to: string,
+    date: string,
+    passengers: number,
+    currency?: string,
+  ): Promise<PriceCalendarDay> {
+    const cacheKey = this.flightAggregatorService.generateCacheKey({
+      from,
+      to,
+      departDate: date,
+      passengers,
+      tripType: 'one-way',
+      currency,
+    });
+    const cached = await this.cacheService.get<FlightSearchResult>(cacheKey);
+
+    if (!cached || cached.flights.length === 0) {
+      return { date, price: null, source: null };
+    }
+
+    return {
+      date,
+      price: rankingEngine.getPriceStats(cached.flights).min,
+      currency: cached.flights[0].currency,
+      source: 'cache',
+    };
+  }
+
+  /**
+   * All dates (YYYY-MM-DD) in a YYYY-MM month
+   */
+  private datesInMonth(month: string): string[] {
+    const dates: string[] = [];
+    let date = `${month}-01`;
+
+    while (date.startsWith(month)) {
+      dates.push(date);
+      date = addDays(date, 1);
+    }
+
+    return dates;
+  }
+}
@@ -0,0 +1,54 @@
+import { FlightOffer, NormalizedFlight } from '../common/types';
+
+/**
+ * Helpers for provider raw offers
+ * Raw offers travel with flights through merging and caching, but are kept
+ * out of responses: they're large and internal to each provider
+ */
+
+/**
+ * An offer as kept in a search session
+ * airlineCode picks the booking partner when a click is redirected
+ */
+export interface SessionOffer extends FlightOffer {
+  airlineCode: string;
+}
+
+/**
+ * Copies of flights without raw offers, at either level
+ */
+export function stripRawOffers(flights: NormalizedFlight[]): NormalizedFlight[] {
+  return flights.map(({ rawOffer, ...flight }) => ({
+    ...flight,
+    offers: flight.offers?.map(({ rawOffer, ...offer }) => offer),
+  }));
+}
+
+/**
+ * Every offer across flights by offer id, with its raw offer
+ * Flights that weren't merged are their own single offer
+ */
+export function collectOffers(flights: NormalizedFlight[]): Record<string, SessionOffer> {
+  const offers: Record<string, SessionOffer> = {};
+
+  for (const flight of flights) {
+    const flightOffers = flight.offers || [
+      {
+        id: flight.id,
+        provider: flight.provider,
+        price: flight.price,
+        currency: flight.currency,
+        originalPrice: flight.originalPrice,
+        originalCurrency: flight.originalCurrency,
+        bookingUrl: flight.bookingUrl,
+        rawOffer: flight.rawOffer,
+      },
+    ];
+
+    for (const offer of flightOffers) {
+      offers[offer.id] = { ...offer, airlineCode: flight.airlineCode };
+    }
+  }
+
+  return offers;
+}
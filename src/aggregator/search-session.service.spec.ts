@@ -0,0 +1,136 @@
+import { SearchSessionService } from './search-session.service';
+import { CacheService } from '../cache/cache.service';
+import { FlightSearchParams, FlightSearchResult, NormalizedFlight } from '../common/types';
+
+/**
+ * In-memory stand-in for the cache, recording each TTL
+ */
+function fakeCache() {
+  const store = new Map<string, unknown>();
+  const ttls = new Map<string, number>();
+  return {
+    store,
+    ttls,
+    get: async (key: string) => (store.has(key) ? structuredClone(store.get(key)) : null),
+    set: async (key: string, value: unknown, ttl: number) => {
+      store.set(key, structuredClone(value));
+      ttls.set(key, ttl);
+    },
+  };
+}
+
+function flight(id: string, price: number, extra: Partial<NormalizedFlight> = {}): NormalizedFlight {
+  return {
+    id,
+    provider: 'amadeus',
+    airline: 'British Airways',
+    airlineCode: 'BA',
+    departureTime: '2099-06-01T10:00:00',
+    arrivalTime: '2099-06-01T13:00:00',
+    duration: 180,
+    stops: 0,
+    price,
+    currency: 'EUR',
+    bookingUrl: `https://partner.example/${id}`,
+    tripType: 'one-way',
+    departureAirport: 'LHR',
+    arrivalAirport: 'JFK',
+    departureDate: '2099-06-01',
+    rawOffer: { id },
+    ...extra,
+  };
+}
+
+const query: FlightSearchParams = { from: 'LHR', to: 'JFK', departDate: '2099-06-01', tripType: 'one-way' };
+
+const merged = flight('merged', 300, {
+  offers: [
+    { id: 'merged', provider: 'amadeus', price: 300, currency: 'EUR', bookingUrl: 'https://partner.example/a', rawOffer: { id: 'a' } },
+    { id: 'kiwi_merged', provider: 'kiwi', price: 320, currency: 'EUR', bookingUrl: 'https://partner.example/k' },
+  ],
+});
+
+function result(flights: NormalizedFlight[]): FlightSearchResult {
+  return {
+    status: 'success',
+    query,
+    flights,
+    totalResults: flights.length,
+    providersQueried: [],
+    timestamp: '2099-01-01T00:00:00.000Z',
+    cacheHit: false,
+  };
+}
+
+describe('SearchSessionService', () => {
+  let cache: ReturnType<typeof fakeCache>;
+  let service: SearchSessionService;
+
+  beforeEach(() => {
+    cache = fakeCache();
+    service = new SearchSessionService(cache as unknown as CacheService);
+  });
+
+  it('points booking URLs at the tracked redirect and keeps raw offers out of the result', async () => {
+    const session = await service.create(result([merged, flight('single', 400)]), 'search-1');
+
+    expect(session.searchId).toBe('search-1');
+    expect(session.flights[0].bookingUrl).toBe('/api/redirect/search-1/merged');
+    expect(session.flights[0].offers!.map((offer) => offer.bookingUrl)).toEqual([
+      '/api/redirect/search-1/merged',
+      '/api/redirect/search-1/kiwi_merged',
+    ]);
+    expect(session.flights[1].rawOffer).toBeUndefined();
+    expect(session.flights[0].offers![0].rawOffer).toBeUndefined();
+  });
+
+  it('keeps every offer with its partner link and raw offer for redirects', async () => {
+    await service.create(result([merged, flight('single', 400)]), 'search-1');
+
+    expect(await service.getOffer('search-1', 'kiwi_merged')).toEqual({
+      query,
+      offer: expect.objectContaining({ provider: 'kiwi', airlineCode: 'BA', bookingUrl: 'https://partner.example/k' }),
+    });
+    expect((await service.getOffer('search-1', 'single'))?.offer).toMatchObject({
+      bookingUrl: 'https://partner.example/single',
+      rawOffer: { id: 'single' },
+    });
+    expect(await service.getOffer('search-1', 'missing')).toBeNull();
+    expect(await service.getOffer('expired', 'single')).toBeNull();
+  });
+
+  it('stores sessions for the requested TTL', async () => {
+    await service.create(result([flight('single', 400)]), 'search-1');
+    await service.create(result([flight('single', 400)]), 'alert-link', 604800);
+
+    expect(cache.ttls.get('search_session:search-1')).toBe(1800);
+    expect(cache.ttls.get('search_session_offers:alert-link')).toBe(604800);
+  });
+
+  it('makes streamed offers redirectable before the search completes', async () => {
+    const first = await service.addOffers('search-1', query, [flight('first', 500)]);
+    await service.addOffers('search-1', query, [flight('second', 450)]);
+
+    expect(first[0].bookingUrl).toBe('/api/redirect/search-1/first');
+    expect(await service.getOffer('search-1', 'first')).not.toBeNull();
+    expect(await service.getOffer('search-1', 'second')).not.toBeNull();
+  });
+
+  it('pages, filters and sorts a stored session', async () => {
+    const flights = [flight('a', 500), flight('b', 200, { stops: 1 }), flight('c', 300)];
+    await service.create(result(flights), 'search-1');
+
+    const page = await service.getPage('search-1', { sortBy: 'price', sortOrder: 'asc' }, 1, 2);
+
+    expect(page).toMatchObject({ page: 1, pageSize: 2, totalPages: 2, totalResults: 3, unfilteredResults: 3 });
+    expect(page!.flights.map((f) => f.id)).toEqual(['b', 'c']);
+
+    const nonstop = await service.getPage('search-1', { maxStops: 0, sortBy: 'price', sortOrder: 'asc' }, 1, 2);
+    expect(nonstop!.flights.map((f) => f.id)).toEqual(['c', 'a']);
+    expect(nonstop!.totalResults).toBe(2);
+  });
+
+  it('returns no page for an expired session', async () => {
+    await expect(service.getPage('expired', {}, 1, 20)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { CacheService } from '../cache/cache.service';
+import { FlightFilterDto } from '../common/dto';
+import { FlightSearchPage, FlightSearchParams, FlightSearchResult, NormalizedFlight } from '../common/types';
+import { rankingEngine } from '../ranking/ranking.engine';
+import { collectOffers, SessionOffer, stripRawOffers } from './raw-offers';
+
+/**
+ * Every offer in a session, for re-pricing and redirects
+ */
+interface SessionOffers {
+  query: FlightSearchParams;
+  offers: Record<string, SessionOffer>;
+}
+
+/**
+ * Search Session Service
+ * Keeps ranked search results server-side under a searchId so clients can
+ * page, filter and sort without posting the flights back
+ */
+@Injectable()
+export class SearchSessionService {
+  private readonly ttlSeconds = parseInt(process.env.SEARCH_SESSION_TTL_SECONDS || '1800'); // 30 minutes
+  private readonly publicBaseUrl = process.env.PUBLIC_BASE_URL || '';
+
+  constructor(private cacheService: CacheService) {}
+
+  /**
+   * Store a search result and return it tagged with its searchId
+   * Raw offers and partner links are stored separately; booking URLs in the
+   * returned result point at the tracked redirect instead
+   * A streamed search passes the searchId its offers were added under;
+   * ttlSeconds overrides SEARCH_SESSION_TTL_SECONDS for links that must outlive a visit
+   */
+  async create(
+    result: FlightSearchResult,
+    searchId: string = randomUUID(),
+    ttlSeconds: number = this.ttlSeconds,
+  ): Promise<FlightSearchResult> {
+    const sessionResult = { ...result, searchId, flights: this.withRedirects(searchId, result.flights) };
+    const sessionOffers: SessionOffers = { query: result.query, offers: collectOffers(result.flights) };
+
+    await Promise.all([
+      this.cacheService.set(this.getSessionKey(searchId), sessionResult, ttlSeconds),
+      this.cacheService.set(this.getOffersKey(searchId), sessionOffers, ttlSeconds),
+    ]);
+
+    return sessionResult;
+  }
+
+  /**
+   * Make offers from a search that is still streaming redirectable
+   * Returns the flights with raw offers removed and booking URLs pointing at
+   * the tracked redirect; create() later replaces the offers with the final set
+   */
+  async addOffers(searchId: string, query: FlightSearchParams, flights: NormalizedFlight[]): Promise<NormalizedFlight[]> {
+    const existing = await this.cacheService.get<SessionOffers>(this.getOffersKey(searchId));
+    const sessionOffers: SessionOffers = {
+      query,
+      offers: { ...existing?.offers, ...collectOffers(flights) },
+    };
+
+    await this.cacheService.set(this.getOffersKey(searchId), sessionOffers, this.ttlSeconds);
+    return this.withRedirects(searchId, flights);
+  }
+
+  /**
+   * Get one offer from a session with the search it came from
+   * Returns null if the session has expired or has no such offer
+   */
+  async getOffer(searchId: string, offerId: string): Promise<{ query: FlightSearchParams; offer: SessionOffer } | null> {
+    const sessionOffers = await this.cacheService.get<SessionOffers>(this.getOffersKey(searchId));
+    const offer = sessionOffers?.offers[offerId];
+
+    return offer ? { query: sessionOffers!.query, offer } : null;
+  }
+
+  /**
+   * Get the stored result for a session, or null if it expired
+   */
+  get(searchId: string): Promise<FlightSearchResult | null> {
+    return this.cacheService.get<FlightSearchResult>(this.getSessionKey(searchId));
+  }
+
+  /**
+   * Filter, sort and paginate a stored session
+   * Returns null if the session doesn't exist or has expired
+   */
+  async getPage(
+    searchId: string,
+    filters: FlightFilterDto,
+    page: number,
+    pageSize: number,
+  ): Promise<FlightSearchPage | null> {
+    const session = await this.get(searchId);
+    if (!session) {
+      return null;
+    }
+
+    // Sessions are stored ranked with the search's profile; re-rank if a different one is asked for
+    const ranked = filters.rankingProfile || filters.rankingWeights || filters.priceBasis
+      ? rankingEngine.rankFlights(session.flights, {
+          profile: filters.rankingProfile,
+          weights: filters.rankingWeights,
+          priceBasis: filters.priceBasis,
+        })
+      : session.flights;
+
+    let flights = rankingEngine.filterFlights(ranked, filters);
+
+    // Flights are in ranked order, so no sortBy means "best first"
+    if (filters.sortBy) {
+      flights = rankingEngine.sortFlights(flights, filters.sortBy, filters.sortOrder, filters.priceBasis);
+    }
+
+    const start = (page - 1) * pageSize;
+
+    return {
+      searchId,
+      query: session.query,
+      status: session.status,
+      flights: flights.slice(start, start + pageSize),
+      page,
+      pageSize,
+      totalPages: Math.ceil(flights.length / pageSize),
+      totalResults: flights.length,
+      unfilteredResults: session.flights.length,
+      facets: rankingEngine.getFacets(ranked, filters),
+      providersQueried: session.providersQueried,
+      timestamp: session.timestamp,
+    };
+  }
+
+  private withRedirects(searchId: string, flights: NormalizedFlight[]): NormalizedFlight[] {
+    return stripRawOffers(flights).map((flight) => ({
+      ...flight,
+      bookingUrl: this.getRedirectUrl(searchId, flight.offers?.[0]?.id ?? flight.id),
+      offers: flight.offers?.map((offer) => ({ ...offer, bookingUrl: this.getRedirectUrl(searchId, offer.id) })),
+    }));
+  }
+
+  private getRedirectUrl(searchId: string, offerId: string): string {
+    return `${this.publicBaseUrl}/api/redirect/${searchId}/${encodeURIComponent(offerId)}`;
+  }
+
+  private getSessionKey(searchId: string): string {
+    return `search_session:${searchId}`;
+  }
+
+  private getOffersKey(searchId: string): string {
+    return `search_session_offers:${searchId}`;
+  }
+}
@@ -0,0 +1,25 @@
+import { Controller, Get, Param, NotFoundException } from '@nestjs/common';
+import { AirlinesService } from './airlines.service';
+import { Airline } from '../common/types';
+
+/**
+ * Airlines Controller
+ * Airline reference lookup
+ */
+@Controller('api/airlines')
+export class AirlinesController {
+  constructor(private airlinesService: AirlinesService) {}
+
+  /**
+   * GET /api/airlines/:code
+   * Look up an airline by IATA or ICAO code
+   */
+  @Get(':code')
+  getByCode(@Param('code') code: string): Airline {
+    const airline = this.airlinesService.getAirline(code);
+    if (!airline) {
+      throw new NotFoundException(`Unknown airline code ${code.toUpperCase()}`);
+    }
+    return airline;
+  }
+}
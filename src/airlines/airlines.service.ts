@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { Airline, AirlineAlliance } from '../common/types';
+import airlinesData from './data/airlines.json';
+
+/**
+ * Carrier fields providers copy onto flights and segments
+ */
+export interface CarrierInfo {
+  name: string;
+  alliance?: AirlineAlliance;
+  logoUrl: string;
+}
+
+/**
+ * Airlines Service
+ * Airline reference data loaded from the bundled dataset
+ * Logo URLs come from AIRLINE_LOGO_URL_PATTERN, where {code} is the IATA code
+ */
+@Injectable()
+export class AirlinesService {
+  private airlines: Map<string, Airline> = new Map();
+  private readonly logoUrlPattern = process.env.AIRLINE_LOGO_URL_PATTERN || 'https://images.kiwi.com/airlines/64/{code}.png';
+
+  constructor() {
+    for (const entry of airlinesData as Omit<Airline, 'logoUrl'>[]) {
+      this.airlines.set(entry.iata, { ...entry, logoUrl: this.buildLogoUrl(entry.iata) });
+    }
+
+    console.log(`[INIT] Loaded ${this.airlines.size} airlines`);
+  }
+
+  /**
+   * Get an airline by IATA (2-character) or ICAO (3-letter) code
+   */
+  getAirline(code: string): Airline | undefined {
+    const normalized = code.toUpperCase();
+    if (normalized.length === 3) {
+      return Array.from(this.airlines.values()).find((airline) => airline.icao === normalized);
+    }
+    return this.airlines.get(normalized);
+  }
+
+  /**
+   * Human-readable airline name, falling back to the carrier code
+   */
+  getAirlineName(carrierCode: string): string {
+    return this.airlines.get(carrierCode.toUpperCase())?.name || carrierCode;
+  }
+
+  /**
+   * Name, alliance and logo for a carrier code
+   * Unknown carriers keep their code as the name but still get a logo URL
+   */
+  getCarrierInfo(carrierCode: string): CarrierInfo {
+    const airline = this.airlines.get(carrierCode.toUpperCase());
+
+    return {
+      name: airline?.name || carrierCode,
+      alliance: airline?.alliance || undefined,
+      logoUrl: airline?.logoUrl || this.buildLogoUrl(carrierCode),
+    };
+  }
+
+  private buildLogoUrl(code: string): string {
+    return this.logoUrlPattern.replace('{code}', encodeURIComponent(code.toUpperCase()));
+  }
+}
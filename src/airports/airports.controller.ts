@@ -0,0 +1,39 @@
+import { Controller, Get, Param, Query, NotFoundException } from '@nestjs/common';
+import { AirportsService } from './airports.service';
+import { AirportSearchQueryDto } from '../common/dto';
+import { Airport, AirportSearchMatch, MetroArea } from '../common/types';
+
+/**
+ * Airports Controller
+ * Airport/city autocomplete and code lookup
+ */
+@Controller('api/airports')
+export class AirportsController {
+  constructor(private airportsService: AirportsService) {}
+
+  /**
+   * GET /api/airports/search?q=lond
+   * Ranked prefix and fuzzy matches on codes, cities and airport names
+   */
+  @Get('search')
+  search(@Query() query: AirportSearchQueryDto): { results: AirportSearchMatch[]; count: number } {
+    const results = this.airportsService.search(query.q, query.limit);
+    return {
+      results,
+      count: results.length,
+    };
+  }
+
+  /**
+   * GET /api/airports/:code
+   * Look up an airport or metro code
+   */
+  @Get(':code')
+  getByCode(@Param('code') code: string): Airport | MetroArea {
+    const result = this.airportsService.getAirport(code) || this.airportsService.getMetro(code);
+    if (!result) {
+      throw new NotFoundException(`Unknown airport code ${code.toUpperCase()}`);
+    }
+    return result;
+  }
+}
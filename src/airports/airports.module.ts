@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AirportsController } from './airports.controller';
+import { AirportsService } from './airports.service';
+
+@Module({
+  controllers: [AirportsController],
+  providers: [AirportsService],
+  exports: [AirportsService],
+})
+export class AirportsModule {}
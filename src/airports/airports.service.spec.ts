@@ -0,0 +1,79 @@
+import { AirportsService } from './airports.service';
+
+describe('AirportsService', () => {
+  let service: AirportsService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    service = new AirportsService();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isKnownCode', () => {
+    it('knows airports and metro codes in any case', () => {
+      expect(service.isKnownCode('LHR')).toBe(true);
+      expect(service.isKnownCode('lon')).toBe(true);
+    });
+
+    it('knows regional airports beyond the major hubs', () => {
+      expect(service.isKnownCode('GKA')).toBe(true);
+      expect(service.isKnownCode('INV')).toBe(true);
+    });
+
+    it('rejects codes that are not airports', () => {
+      expect(service.isKnownCode('XXX')).toBe(false);
+      expect(service.isKnownCode('123')).toBe(false);
+    });
+  });
+
+  describe('expandCode', () => {
+    it('expands metro codes into their member airports', () => {
+      expect(service.expandCode('NYC')).toEqual(['JFK', 'LGA', 'EWR']);
+    });
+
+    it('returns an airport code on its own and [] for unknown codes', () => {
+      expect(service.expandCode('jfk')).toEqual(['JFK']);
+      expect(service.expandCode('XXX')).toEqual([]);
+    });
+  });
+
+  describe('getRegions', () => {
+    it('returns the continents of an airport or metro code', () => {
+      expect(service.getRegions('JFK')).toEqual(['NA']);
+      expect(service.getRegions('LON')).toEqual(['EU']);
+      expect(service.getRegions('XXX')).toEqual([]);
+    });
+  });
+
+  describe('search', () => {
+    it('ranks an exact code match first', () => {
+      expect(service.search('LHR')[0].code).toBe('LHR');
+    });
+
+    it('puts the metro entry above its airports for a city query', () => {
+      const [first, ...rest] = service.search('lond');
+
+      expect(first).toMatchObject({ type: 'metro', code: 'LON' });
+      expect(rest.map((match) => match.code)).toContain('LHR');
+    });
+
+    it('tolerates a typo and ignores accents', () => {
+      expect(service.search('sao paulo').map((match) => match.code)).toContain('GRU');
+      expect(service.search('frankfrut').map((match) => match.code)).toContain('FRA');
+    });
+  });
+
+  describe('findNearby', () => {
+    it('lists nearby airports closest first, leaving out the code itself', () => {
+      const nearby = service.findNearby('LHR', 100);
+      const distances = nearby.map((airport) => airport.distanceKm);
+
+      expect(nearby.map((airport) => airport.code)).not.toContain('LHR');
+      expect(nearby.map((airport) => airport.code)).toContain('LGW');
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { Injectable } from '@nestjs/common';
+import { Airport, AirportSearchMatch, MetroArea, NearbyAirport, Region } from '../common/types';
+import { distanceKm } from '../common/geo.utils';
+import airportsData from './data/airports.json';
+import metrosData from './data/metros.json';
+
+/**
+ * Airports Service
+ * Airport and metro-area reference data loaded from the bundled dataset
+ * The dataset lists every IATA airport with scheduled service (OurAirports and
+ * OpenFlights data), so it is used for autocomplete, nearby-airport lookups
+ * and for rejecting unknown search codes
+ */
+@Injectable()
+export class AirportsService {
+  private airports: Map<string, Airport> = new Map();
+  private metros: Map<string, MetroArea> = new Map();
+
+  constructor() {
+    for (const airport of airportsData as Airport[]) {
+      this.airports.set(airport.iata, airport);
+    }
+    for (const metro of metrosData as MetroArea[]) {
+      this.metros.set(metro.code, metro);
+    }
+
+    console.log(`[INIT] Loaded ${this.airports.size} airports and ${this.metros.size} metro areas`);
+  }
+
+  /**
+   * Get an airport by IATA code
+   */
+  getAirport(code: string): Airport | undefined {
+    return this.airports.get(code.toUpperCase());
+  }
+
+  /**
+   * Get a metro area by code
+   */
+  getMetro(code: string): MetroArea | undefined {
+    return this.metros.get(code.toUpperCase());
+  }
+
+  /**
+   * Check if a code is a known airport or metro code
+   */
+  isKnownCode(code: string): boolean {
+    return !!(this.getAirport(code) || this.getMetro(code));
+  }
+
+  /**
+   * Expand a code into airport codes
+   * Metro codes expand into their member airports; unknown codes return []
+   */
+  expandCode(code: string): string[] {
+    const metro = this.getMetro(code);
+    if (metro) {
+      return [...metro.airports];
+    }
+    return this.getAirport(code) ? [code.toUpperCase()] : [];
+  }
+
+  /**
+   * Regions (continents) an airport or metro code is in; unknown codes return []
+   */
+  getRegions(code: string): Region[] {
+    const regions = this.expandCode(code).map((iata) => this.airports.get(iata)?.continent);
+    return [...new Set(regions.filter((region): region is Region => !!region))];
+  }
+
+  /**
+   * Airports within radiusKm of an airport or metro code, closest first
+   * The code's own airports are left out
+   */
+  findNearby(code: string, radiusKm: number): NearbyAirport[] {
+    const ownCodes = this.expandCode(code);
+    const own = ownCodes.map((iata) => this.airports.get(iata)).filter((airport): airport is Airport => !!airport);
+    if (own.length === 0) {
+      return [];
+    }
+
+    const nearby: NearbyAirport[] = [];
+    for (const airport of this.airports.values()) {
+      if (ownCodes.includes(airport.iata)) {
+        continue;
+      }
+
+      const distance = Math.min(...own.map((origin) => distanceKm(origin, airport)));
+      if (distance <= radiusKm) {
+        nearby.push({ code: airport.iata, name: airport.name, city: airport.city, distanceKm: Math.round(distance) });
+      }
+    }
+
+    return nearby.sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+
+  /**
+   * Autocomplete search over codes, cities and airport names
+   * Exact and prefix matches rank first, then fuzzy (typo-tolerant) matches
+   */
+  search(query: string, limit: number = 10): AirportSearchMatch[] {
+    const q = this.normalize(query);
+    if (!q) {
+      return [];
+    }
+
+    const matches: AirportSearchMatch[] = [];
+
+    for (const metro of this.metros.values()) {
+      const score = this.scoreMatch(q, metro.code, [metro.city]);
+      if (score > 0) {
+        matches.push({
+          type: 'metro',
+          code: metro.code,
+          name: metro.name,
+          city: metro.city,
+          country: metro.country,
+          airports: metro.airports,
+          // Metro entries sit just above their own airports for city queries
+          score: score + 1,
+        });
+      }
+    }
+
+    for (const airport of this.airports.values()) {
+      const score = Math.max(
+        this.scoreMatch(q, airport.iata, [airport.city, airport.name]),
+        this.normalize(airport.icao) === q ? 85 : 0,
+      );
+      if (score > 0) {
+        matches.push({
+          type: 'airport',
+          code: airport.iata,
+          name: airport.name,
+          city: airport.city,
+          country: airport.country,
+          score,
+        });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+
+  /**
+   * Score a query against a code and some searchable names (0 = no match)
+   */
+  private scoreMatch(q: string, code: string, names: string[]): number {
+    const normalizedCode = this.normalize(code);
+    if (normalizedCode === q) {
+      return 100;
+    }
+
+    let best = 0;
+    if (normalizedCode.startsWith(q)) {
+      best = 80;
+    }
+
+    for (const [index, rawName] of names.entries()) {
+      const name = this.normalize(rawName);
+      // The first name (city) counts a bit more than later ones (airport name)
+      const bonus = index === 0 ? 10 : 0;
+
+      if (name === q) {
+        best = Math.max(best, 80 + bonus);
+      } else if (name.startsWith(q)) {
+        best = Math.max(best, 60 + bonus);
+      } else if (name.split(/[\s\-/]+/).some((word) => word.startsWith(q))) {
+        best = Math.max(best, 40 + bonus);
+      }
+    }
+
+    if (best > 0 || q.length < 4) {
+      return best;
+    }
+
+    // Fuzzy: compare against the start of each word, allowing a typo per ~4 characters
+    const maxDistance = Math.floor(q.length / 4);
+    for (const rawName of names) {
+      for (const word of this.normalize(rawName).split(/[\s\-/]+/)) {
+        const distance = this.levenshtein(q, word.slice(0, q.length));
+        if (distance <= maxDistance) {
+          best = Math.max(best, 30 - distance * 5);
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Lowercase and strip accents so "sao" matches "São Paulo"
+   */
+  private normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  }
+
+  private levenshtein(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      let diagonal = previous[0];
+      previous[0] = i;
+
+      for (let j = 1; j <= b.length; j++) {
+        const above = previous[j];
+        previous[j] = Math.min(
+          previous[j] + 1,
+          previous[j - 1] + 1,
+          diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+        diagonal = above;
+      }
+    }
+
+    return previous[b.length];
+  }
+}
@@ -0,0 +1,122 @@
+import { Repository } from 'typeorm';
+import { AlertSchedulerService } from './alert-scheduler.service';
+import { AlertsService } from './alerts.service';
+import { PriceAlert } from './price-alert.entity';
+import { PriceAlertCheck } from './price-alert-check.entity';
+import { IAlertNotifier } from './notifiers/alert-notifier';
+import { FlightAggregatorService } from '../aggregator/flight-aggregator.service';
+import { SearchSessionService } from '../aggregator/search-session.service';
+import { CacheService } from '../cache/cache.service';
+import { FlightSearchResult, NormalizedFlight } from '../common/types';
+
+function alertWith(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: 'alert-1',
+    from: 'LHR',
+    to: 'JFK',
+    departDate: '2099-06-01',
+    returnDate: null,
+    tripType: 'one-way',
+    adults: 1,
+    children: 0,
+    infants: 0,
+    cabin: null,
+    targetPrice: 300,
+    dropPercent: null,
+    notifyType: 'webhook',
+    notifyTarget: 'https://hooks.example.com/alerts',
+    status: 'active',
+    baselinePrice: null,
+    lastPrice: null,
+    lowestPrice: null,
+    currency: null,
+    lastCheckedAt: null,
+    lastNotifiedPrice: null,
+    lastNotifiedAt: null,
+    ...overrides,
+  } as PriceAlert;
+}
+
+describe('AlertSchedulerService', () => {
+  let prices: number[];
+  let notify: jest.Mock;
+  let createSession: jest.Mock;
+  let scheduler: AlertSchedulerService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    prices = [];
+    notify = jest.fn().mockResolvedValue(undefined);
+    createSession = jest.fn(async (result: FlightSearchResult, _searchId?: string, _ttlSeconds?: number) => ({
+      ...result,
+      searchId: 'session-1',
+      flights: result.flights.map((flight) => ({ ...flight, bookingUrl: `/api/redirect/session-1/${flight.id}` })),
+    }));
+
+    const searchFlights = async () => {
+      const flights = prices.map((price, index) => ({ id: `demo_${index}`, price, currency: 'EUR' }) as NormalizedFlight);
+      return { flights, totalResults: flights.length } as FlightSearchResult;
+    };
+    const notifier: IAlertNotifier = { type: 'webhook', isValidTarget: () => true, notify };
+
+    scheduler = new AlertSchedulerService(
+      { save: async (alert: PriceAlert) => alert } as unknown as Repository<PriceAlert>,
+      { create: (check: PriceAlertCheck) => check, save: async (check: PriceAlertCheck) => check } as unknown as Repository<PriceAlertCheck>,
+      [notifier],
+      { toSearchParams: () => ({}) } as unknown as AlertsService,
+      { searchFlights } as unknown as FlightAggregatorService,
+      {} as CacheService,
+      { create: createSession } as unknown as SearchSessionService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('notifies when the cheapest price is at or below target, with a tracked link to that flight', async () => {
+    prices = [320, 290];
+    const alert = alertWith();
+
+    const check = await scheduler.checkAlert(alert);
+
+    expect(check).toMatchObject({ bestPrice: 290, notified: true, resultsCount: 2 });
+    expect(notify.mock.calls[0][1]).toMatchObject({
+      reason: 'below-target',
+      currentPrice: 290,
+      bookingUrl: '/api/redirect/session-1/demo_1',
+    });
+    expect(createSession.mock.calls[0][0].flights.map((flight: NormalizedFlight) => flight.id)).toEqual(['demo_1']);
+    expect(createSession.mock.calls[0][2]).toBe(604800);
+    expect(alert).toMatchObject({ lastNotifiedPrice: 290, baselinePrice: 290, lowestPrice: 290 });
+  });
+
+  it('only notifies again for a new low', async () => {
+    const alert = alertWith({ lastNotifiedPrice: 280 });
+
+    prices = [285];
+    expect((await scheduler.checkAlert(alert)).notified).toBe(false);
+
+    prices = [270];
+    expect((await scheduler.checkAlert(alert)).notified).toBe(true);
+  });
+
+  it('notifies on a percentage drop from the baseline above target', async () => {
+    prices = [450];
+    const alert = alertWith({ dropPercent: 10, baselinePrice: 500 });
+
+    await scheduler.checkAlert(alert);
+
+    expect(notify.mock.calls[0][1]).toMatchObject({ reason: 'price-drop', previousPrice: 500 });
+  });
+
+  it('records a check without notifying when nothing was found', async () => {
+    const alert = alertWith();
+
+    const check = await scheduler.checkAlert(alert);
+
+    expect(check).toMatchObject({ bestPrice: null, notified: false });
+    expect(notify).not.toHaveBeenCalled();
+    expect(alert.lastCheckedAt).toBeInstanceOf(Date);
+  });
+});
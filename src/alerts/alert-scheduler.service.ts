@@ -0,0 +1,223 @@
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { PriceAlert } from './price-alert.entity';
+import { PriceAlertCheck } from './price-alert-check.entity';
+import { AlertsService } from './alerts.service';
+import { ALERT_NOTIFIERS, IAlertNotifier, PriceAlertNotification } from './notifiers/alert-notifier';
+import { FlightAggregatorService } from '../aggregator/flight-aggregator.service';
+import { CacheService } from '../cache/cache.service';
+import { SearchSessionService } from '../aggregator/search-session.service';
+import { FlightSearchResult, NormalizedFlight } from '../common/types';
+import { today } from '../common/date.utils';
+
+/**
+ * Alert Scheduler Service
+ * Periodically re-runs the search for every active alert, records the best
+ * price and fires a notification when the price drops enough
+ * A Redis lock makes sure only one instance runs each round
+ */
+@Injectable()
+export class AlertSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly intervalMinutes = parseInt(process.env.ALERT_CHECK_INTERVAL_MINUTES || '60');
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private readonly lockKey = 'lock:alerts:run-checks';
+  // Notification links stay redirectable this long (default 7 days)
+  private readonly linkTtlSeconds = parseInt(process.env.ALERT_LINK_TTL_SECONDS || '604800');
+
+  constructor(
+    @InjectRepository(PriceAlert) private alertRepository: Repository<PriceAlert>,
+    @InjectRepository(PriceAlertCheck) private checkRepository: Repository<PriceAlertCheck>,
+    @Inject(ALERT_NOTIFIERS) private notifiers: IAlertNotifier[],
+    private alertsService: AlertsService,
+    private flightAggregatorService: FlightAggregatorService,
+    private cacheService: CacheService,
+    private searchSessionService: SearchSessionService,
+  ) {}
+
+  onModuleInit(): void {
+    if (process.env.ALERT_SCHEDULER_ENABLED === 'false') {
+      console.log('[ALERTS] Scheduler disabled via ALERT_SCHEDULER_ENABLED=false');
+      return;
+    }
+
+    console.log(`[ALERTS] Checking price alerts every ${this.intervalMinutes} minutes`);
+    this.timer = setInterval(() => {
+      this.runChecks().catch((error) => console.error('[ALERTS] Scheduled check failed:', error));
+    }, this.intervalMinutes * 60 * 1000);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire past alerts and check every active one
+   * Skips the run if the previous one is still going (here or on another
+   * instance) or the database is unreachable
+   */
+  async runChecks(): Promise<void> {
+    if (!this.alertRepository.manager.connection.isInitialized) {
+      console.log('[ALERTS] Database not connected, skipping check');
+      return;
+    }
+
+    if (this.isRunning) {
+      console.log('[ALERTS] Previous check still running, skipping');
+      return;
+    }
+
+    // Held for at most one interval, so a crashed holder doesn't block the next round
+    const token = await this.cacheService.acquireLock(this.lockKey, this.intervalMinutes * 60);
+    if (!token) {
+      console.log('[ALERTS] Another instance is checking alerts, skipping');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.expireAlerts();
+
+      const alerts = await this.alertRepository.find({ where: { status: 'active' } });
+      console.log(`[ALERTS] Checking ${alerts.length} active alerts`);
+
+      // Sequential on purpose: keeps provider load flat instead of bursting
+      for (const alert of alerts) {
+        try {
+          await this.checkAlert(alert);
+        } catch (error) {
+          console.error(`[ALERTS] Error checking alert ${alert.id}:`, error);
+        }
+      }
+    } finally {
+      this.isRunning = false;
+      await this.cacheService.releaseLock(this.lockKey, token);
+    }
+  }
+
+  /**
+   * Re-run the search for one alert and notify if the price qualifies
+   */
+  async checkAlert(alert: PriceAlert): Promise<PriceAlertCheck> {
+    const result = await this.flightAggregatorService.searchFlights(this.alertsService.toSearchParams(alert), {
+      session: false,
+    });
+    const cheapest = result.flights.length > 0
+      ? result.flights.reduce((best, flight) => (flight.price < best.price ? flight : best))
+      : null;
+    const bestPrice = cheapest ? cheapest.price : null;
+
+    let notified = false;
+    if (cheapest && bestPrice !== null) {
+      const reason = this.getNotificationReason(alert, bestPrice);
+      if (reason) {
+        notified = await this.sendNotification(alert, {
+          alertId: alert.id,
+          reason,
+          from: alert.from,
+          to: alert.to,
+          departDate: alert.departDate,
+          returnDate: alert.returnDate ?? undefined,
+          currentPrice: bestPrice,
+          previousPrice: alert.lastNotifiedPrice ?? alert.baselinePrice ?? undefined,
+          targetPrice: alert.targetPrice,
+          currency: cheapest.currency,
+          bookingUrl: await this.createBookingLink(result, cheapest),
+          checkedAt: new Date().toISOString(),
+        });
+      }
+
+      alert.baselinePrice = alert.baselinePrice ?? bestPrice;
+      alert.lowestPrice = alert.lowestPrice === null ? bestPrice : Math.min(alert.lowestPrice, bestPrice);
+      alert.currency = cheapest.currency;
+      if (notified) {
+        alert.lastNotifiedPrice = bestPrice;
+        alert.lastNotifiedAt = new Date();
+      }
+    }
+
+    alert.lastPrice = bestPrice;
+    alert.lastCheckedAt = new Date();
+    await this.alertRepository.save(alert);
+
+    return this.checkRepository.save(
+      this.checkRepository.create({
+        alertId: alert.id,
+        bestPrice,
+        currency: cheapest?.currency ?? null,
+        resultsCount: result.totalResults,
+        notified,
+      }),
+    );
+  }
+
+  /**
+   * Decide whether a price should trigger a notification
+   * Once notified, only a new low triggers again, so users aren't spammed
+   * every interval while the price sits below target
+   */
+  private getNotificationReason(alert: PriceAlert, price: number): PriceAlertNotification['reason'] | null {
+    if (alert.lastNotifiedPrice !== null && price >= alert.lastNotifiedPrice) {
+      return null;
+    }
+
+    if (price <= alert.targetPrice) {
+      return 'below-target';
+    }
+
+    const reference = alert.lastNotifiedPrice ?? alert.baselinePrice;
+    if (alert.dropPercent && reference && price <= reference * (1 - alert.dropPercent / 100)) {
+      return 'price-drop';
+    }
+
+    return null;
+  }
+
+  /**
+   * Tracked redirect link for the cheapest flight
+   * Only that flight is kept in the session, since the link outlives a normal one
+   */
+  private async createBookingLink(result: FlightSearchResult, cheapest: NormalizedFlight): Promise<string> {
+    const session = await this.searchSessionService.create(
+      { ...result, flights: [cheapest], totalResults: 1 },
+      undefined,
+      this.linkTtlSeconds,
+    );
+    return session.flights[0].bookingUrl;
+  }
+
+  private async sendNotification(alert: PriceAlert, notification: PriceAlertNotification): Promise<boolean> {
+    const notifier = this.notifiers.find((n) => n.type === alert.notifyType);
+    if (!notifier) {
+      console.error(`[ALERTS] No notifier registered for type ${alert.notifyType}`);
+      return false;
+    }
+
+    try {
+      await notifier.notify(alert.notifyTarget, notification);
+      console.log(`[ALERTS] Notified alert ${alert.id} (${notification.reason}) at ${notification.currentPrice}`);
+      return true;
+    } catch (error) {
+      console.error(`[ALERTS] Failed to notify alert ${alert.id}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Expire alerts whose departure date has passed
+   */
+  private async expireAlerts(): Promise<void> {
+    const result = await this.alertRepository.update(
+      { status: In(['active', 'paused']), departDate: LessThan(today()) },
+      { status: 'expired' },
+    );
+
+    if (result.affected) {
+      console.log(`[ALERTS] Expired ${result.affected} alerts`);
+    }
+  }
+}
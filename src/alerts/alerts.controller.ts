@@ -0,0 +1,100 @@
+import { Controller, Post, Get, Patch, Delete, Body, Param, HttpCode, ParseUUIDPipe, Headers, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../common/admin.guard';
+import { DatabaseReadyGuard } from '../database/database-ready.guard';
+import { AlertsService } from './alerts.service';
+import { AlertSchedulerService } from './alert-scheduler.service';
+import { CreatePriceAlertDto, UpdatePriceAlertDto } from './alerts.dto';
+import { PriceAlert } from './price-alert.entity';
+import { PriceAlertCheck } from './price-alert-check.entity';
+
+/**
+ * Price Alerts Controller
+ * CRUD for price alerts and their check history
+ * Creating an alert returns a management token; every per-alert route needs
+ * it in the X-Alert-Token header. Listing all alerts is admin-only
+ */
+@Controller('api/alerts')
+@UseGuards(DatabaseReadyGuard)
+export class AlertsController {
+  constructor(
+    private alertsService: AlertsService,
+    private alertSchedulerService: AlertSchedulerService,
+  ) {}
+
+  /**
+   * POST /api/alerts
+   * Create a price alert
+   */
+  @Post()
+  create(@Body() dto: CreatePriceAlertDto): Promise<PriceAlert & { manageToken: string }> {
+    return this.alertsService.create(dto);
+  }
+
+  /**
+   * GET /api/alerts
+   * List price alerts (admin only)
+   */
+  @Get()
+  @UseGuards(AdminGuard)
+  findAll(): Promise<PriceAlert[]> {
+    return this.alertsService.findAll();
+  }
+
+  /**
+   * GET /api/alerts/:id
+   * Get a price alert
+   */
+  @Get(':id')
+  findOne(@Param('id', ParseUUIDPipe) id: string, @Headers('x-alert-token') token?: string): Promise<PriceAlert> {
+    return this.alertsService.findAuthorized(id, token);
+  }
+
+  /**
+   * PATCH /api/alerts/:id
+   * Update target price, drop percentage, status or notification target
+   */
+  @Patch(':id')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdatePriceAlertDto,
+    @Headers('x-alert-token') token?: string,
+  ): Promise<PriceAlert> {
+    await this.alertsService.findAuthorized(id, token);
+    return this.alertsService.update(id, dto);
+  }
+
+  /**
+   * DELETE /api/alerts/:id
+   * Delete a price alert
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id', ParseUUIDPipe) id: string, @Headers('x-alert-token') token?: string): Promise<void> {
+    await this.alertsService.findAuthorized(id, token);
+    return this.alertsService.remove(id);
+  }
+
+  /**
+   * GET /api/alerts/:id/checks
+   * Best price recorded at each scheduled check
+   */
+  @Get(':id/checks')
+  async getChecks(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('x-alert-token') token?: string,
+  ): Promise<PriceAlertCheck[]> {
+    await this.alertsService.findAuthorized(id, token);
+    return this.alertsService.getChecks(id);
+  }
+
+  /**
+   * POST /api/alerts/:id/check
+   * Re-check an alert now instead of waiting for the scheduler
+   */
+  @Post(':id/check')
+  @HttpCode(200)
+  async checkNow(@Param('id', ParseUUIDPipe) id: string, @Headers('x-alert-token') token?: string): Promise<PriceAlertCheck> {
+    const alert = await this.alertsService.findAuthorized(id, token);
+    return this.alertSchedulerService.checkAlert(alert);
+  }
+}
@@ -0,0 +1,103 @@
+import { IsString, IsOptional, IsNumber, IsEnum, Min, Max, Length, Matches, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * Where to deliver alert notifications
+ */
+export class NotificationTargetDto {
+  @IsEnum(['webhook'])
+  type!: 'webhook';
+
+  @IsString()
+  target!: string; // Webhook URL
+}
+
+/**
+ * DTO for creating a price alert
+ */
+export class CreatePriceAlertDto {
+  @IsString()
+  @Length(3, 3)
+  from!: string;
+
+  @IsString()
+  @Length(3, 3)
+  to!: string;
+
+  @IsString()
+  departDate!: string; // YYYY-MM-DD format
+
+  @IsOptional()
+  @IsString()
+  returnDate?: string; // YYYY-MM-DD format
+
+  @IsEnum(['one-way', 'round-trip'])
+  tripType: 'one-way' | 'round-trip' = 'one-way';
+
+  @IsNumber()
+  @Min(1)
+  @Max(9)
+  adults: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(8)
+  children?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(4)
+  infants?: number;
+
+  @IsOptional()
+  @IsEnum(['economy', 'business', 'first', 'premium-economy'])
+  cabin?: 'economy' | 'business' | 'first' | 'premium-economy';
+
+  @IsNumber()
+  @Min(1)
+  targetPrice!: number;
+
+  // Currency of targetPrice and of the prices the alert tracks (defaults to DEFAULT_CURRENCY)
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @Matches(/^[A-Z]{3}$/, { message: 'currency must be a 3-letter ISO 4217 code' })
+  currency?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(90)
+  dropPercent?: number;
+
+  @ValidateNested()
+  @Type(() => NotificationTargetDto)
+  notify!: NotificationTargetDto;
+}
+
+/**
+ * DTO for updating a price alert
+ * Route and dates are fixed; create a new alert to watch something else
+ */
+export class UpdatePriceAlertDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  targetPrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(90)
+  dropPercent?: number;
+
+  @IsOptional()
+  @IsEnum(['active', 'paused'])
+  status?: 'active' | 'paused';
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationTargetDto)
+  notify?: NotificationTargetDto;
+}
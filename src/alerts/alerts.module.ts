@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AlertsController } from './alerts.controller';
+import { AlertsService } from './alerts.service';
+import { AlertSchedulerService } from './alert-scheduler.service';
+import { PriceAlert } from './price-alert.entity';
+import { PriceAlertCheck } from './price-alert-check.entity';
+import { ALERT_NOTIFIERS } from './notifiers/alert-notifier';
+import { WebhookNotifier } from './notifiers/webhook.notifier';
+import { FlightsModule } from '../flights/flights.module';
+import { CacheModule } from '../cache/cache.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PriceAlert, PriceAlertCheck]), FlightsModule, CacheModule],
+  controllers: [AlertsController],
+  providers: [
+    AlertsService,
+    AlertSchedulerService,
+    WebhookNotifier,
+    {
+      provide: ALERT_NOTIFIERS,
+      useFactory: (webhook: WebhookNotifier) => [webhook],
+      inject: [WebhookNotifier],
+    },
+  ],
+})
+export class AlertsModule {}
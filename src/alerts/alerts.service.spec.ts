@@ -0,0 +1,116 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Repository } from 'typeorm';
+import { AlertsService } from './alerts.service';
+import { CreatePriceAlertDto } from './alerts.dto';
+import { PriceAlert } from './price-alert.entity';
+import { PriceAlertCheck } from './price-alert-check.entity';
+import { WebhookNotifier } from './notifiers/webhook.notifier';
+import { FlightAggregatorService } from '../aggregator/flight-aggregator.service';
+
+function createDto(overrides: Partial<CreatePriceAlertDto> = {}): CreatePriceAlertDto {
+  return {
+    from: 'lhr',
+    to: 'jfk',
+    departDate: '2099-06-01',
+    tripType: 'one-way',
+    adults: 1,
+    targetPrice: 350,
+    notify: { type: 'webhook', target: 'https://hooks.example.com/alerts' },
+    ...overrides,
+  };
+}
+
+describe('AlertsService', () => {
+  let stored: (PriceAlert & { manageTokenHash: string }) | null;
+  let validateSearchParams: jest.Mock;
+  let service: AlertsService;
+
+  beforeEach(() => {
+    stored = null;
+    validateSearchParams = jest.fn(() => ({ valid: true, errors: [] }));
+
+    const alertRepository = {
+      create: (alert: Partial<PriceAlert>) => alert,
+      save: async (alert: PriceAlert) => {
+        stored = { ...alert, id: 'alert-1' } as PriceAlert & { manageTokenHash: string };
+        return stored;
+      },
+      findOneBy: async ({ id }: { id: string }) => (stored?.id === id ? stored : null),
+      createQueryBuilder: () => {
+        let id: string;
+        const query = {
+          select: () => query,
+          where: (_: string, params: { id: string }) => {
+            id = params.id;
+            return query;
+          },
+          getOne: async () => (stored?.id === id ? stored : null),
+        };
+        return query;
+      },
+    } as unknown as Repository<PriceAlert>;
+
+    service = new AlertsService(
+      alertRepository,
+      {} as Repository<PriceAlertCheck>,
+      [new WebhookNotifier()],
+      { validateSearchParams } as unknown as FlightAggregatorService,
+    );
+  });
+
+  describe('create', () => {
+    it('returns the management token once and stores only its hash', async () => {
+      const alert = await service.create(createDto());
+
+      expect(alert.manageToken).toEqual(expect.any(String));
+      expect(alert).not.toHaveProperty('manageTokenHash');
+      expect(stored!.manageTokenHash).toBe(createHash('sha256').update(alert.manageToken).digest('hex'));
+      expect(stored).toMatchObject({ from: 'LHR', to: 'JFK', status: 'active', returnDate: null });
+    });
+
+    it('rejects routes the search validation rejects', async () => {
+      validateSearchParams.mockReturnValue({ valid: false, errors: ['Unknown departure airport code: XXX'] });
+
+      await expect(service.create(createDto({ from: 'XXX' }))).rejects.toThrow(BadRequestException);
+      expect(stored).toBeNull();
+    });
+
+    it('rejects webhook targets on private networks', async () => {
+      const dto = createDto({ notify: { type: 'webhook', target: 'https://169.254.169.254/latest' } });
+
+      await expect(service.create(dto)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('findAuthorized', () => {
+    it('returns the alert for its management token', async () => {
+      const { manageToken } = await service.create(createDto());
+
+      await expect(service.findAuthorized('alert-1', manageToken)).resolves.toMatchObject({ id: 'alert-1' });
+    });
+
+    it('answers a wrong or missing token like a missing alert', async () => {
+      await service.create(createDto());
+
+      await expect(service.findAuthorized('alert-1', 'wrong-token')).rejects.toThrow(NotFoundException);
+      await expect(service.findAuthorized('alert-1', undefined)).rejects.toThrow(NotFoundException);
+      await expect(service.findAuthorized('alert-2', 'wrong-token')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('toSearchParams', () => {
+    it('re-runs the alert as a search with its passenger breakdown', async () => {
+      await service.create(createDto({ adults: 2, children: 1, tripType: 'round-trip', returnDate: '2099-06-10' }));
+
+      expect(service.toSearchParams(stored!)).toMatchObject({
+        from: 'LHR',
+        to: 'JFK',
+        returnDate: '2099-06-10',
+        passengers: 3,
+        passengerBreakdown: { adults: 2, children: 1, infants: 0 },
+        tripType: 'round-trip',
+      });
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PriceAlert } from './price-alert.entity';
+import { PriceAlertCheck } from './price-alert-check.entity';
+import { CreatePriceAlertDto, UpdatePriceAlertDto } from './alerts.dto';
+import { ALERT_NOTIFIERS, IAlertNotifier } from './notifiers/alert-notifier';
+import { FlightAggregatorService } from '../aggregator/flight-aggregator.service';
+import { FlightSearchParams } from '../common/types';
+
+/**
+ * Price Alerts Service
+ * CRUD for saved price alerts and their check history
+ * Each alert is managed with the token returned when it was created; only
+ * admins can list every alert
+ */
+@Injectable()
+export class AlertsService {
+  constructor(
+    @InjectRepository(PriceAlert) private alertRepository: Repository<PriceAlert>,
+    @InjectRepository(PriceAlertCheck) private checkRepository: Repository<PriceAlertCheck>,
+    @Inject(ALERT_NOTIFIERS) private notifiers: IAlertNotifier[],
+    private flightAggregatorService: FlightAggregatorService,
+  ) {}
+
+  /**
+   * Create a new alert
+   * The management token is only ever returned here; only its hash is stored
+   */
+  async create(dto: CreatePriceAlertDto): Promise<PriceAlert & { manageToken: string }> {
+    const manageToken = randomBytes(24).toString('base64url');
+
+    const alert = this.alertRepository.create({
+      from: dto.from.toUpperCase(),
+      to: dto.to.toUpperCase(),
+      departDate: dto.departDate,
+      returnDate: dto.tripType === 'round-trip' ? dto.returnDate ?? null : null,
+      tripType: dto.tripType,
+      adults: dto.adults,
+      children: dto.children || 0,
+      infants: dto.infants || 0,
+      cabin: dto.cabin ?? null,
+      targetPrice: dto.targetPrice,
+      currency: dto.currency ?? null,
+      dropPercent: dto.dropPercent ?? null,
+      notifyType: dto.notify.type,
+      notifyTarget: dto.notify.target,
+      manageTokenHash: this.hashToken(manageToken),
+      status: 'active',
+    });
+
+    // Reuse the search validation so alerts can't be created for unsearchable routes
+    const validation = this.flightAggregatorService.validateSearchParams(this.toSearchParams(alert));
+    const errors = [...validation.errors, ...this.validateNotifyTarget(dto.notify.type, dto.notify.target)];
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid price alert',
+        errors,
+      });
+    }
+
+    const { manageTokenHash, ...saved } = await this.alertRepository.save(alert);
+    return { ...saved, manageToken } as PriceAlert & { manageToken: string };
+  }
+
+  /**
+   * Get an alert after checking its management token
+   * A wrong token gets the same 404 as a missing alert, so ids can't be probed
+   */
+  async findAuthorized(id: string, token: string | undefined): Promise<PriceAlert> {
+    const stored = await this.alertRepository
+      .createQueryBuilder('alert')
+      .select(['alert.id', 'alert.manageTokenHash'])
+      .where('alert.id = :id', { id })
+      .getOne();
+
+    if (!stored || !token || !this.tokenMatches(token, stored.manageTokenHash)) {
+      throw new NotFoundException(`Price alert ${id} not found`);
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * List all alerts, newest first
+   */
+  findAll(): Promise<PriceAlert[]> {
+    return this.alertRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Get a single alert
+   */
+  async findOne(id: string): Promise<PriceAlert> {
+    const alert = await this.alertRepository.findOneBy({ id });
+    if (!alert) {
+      throw new NotFoundException(`Price alert ${id} not found`);
+    }
+    return alert;
+  }
+
+  /**
+   * Update target, drop percentage, status or notification target
+   */
+  async update(id: string, dto: UpdatePriceAlertDto): Promise<PriceAlert> {
+    const alert = await this.findOne(id);
+
+    if (dto.status && alert.status === 'expired') {
+      throw new BadRequestException('Expired alerts cannot be re-activated');
+    }
+
+    if (dto.notify) {
+      const errors = this.validateNotifyTarget(dto.notify.type, dto.notify.target);
+      if (errors.length > 0) {
+        throw new BadRequestException({
+          message: 'Invalid price alert',
+          errors,
+        });
+      }
+      alert.notifyType = dto.notify.type;
+      alert.notifyTarget = dto.notify.target;
+    }
+
+    if (dto.targetPrice !== undefined) {
+      alert.targetPrice = dto.targetPrice;
+    }
+    if (dto.dropPercent !== undefined) {
+      alert.dropPercent = dto.dropPercent;
+    }
+    if (dto.status) {
+      alert.status = dto.status;
+    }
+
+    return this.alertRepository.save(alert);
+  }
+
+  /**
+   * Delete an alert (its checks are removed by cascade)
+   */
+  async remove(id: string): Promise<void> {
+    const result = await this.alertRepository.delete({ id });
+    if (!result.affected) {
+      throw new NotFoundException(`Price alert ${id} not found`);
+    }
+  }
+
+  /**
+   * Price check history for an alert, newest first
+   */
+  async getChecks(id: string, limit: number = 100): Promise<PriceAlertCheck[]> {
+    await this.findOne(id);
+    return this.checkRepository.find({
+      where: { alertId: id },
+      order: { checkedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Build the search an alert re-runs
+   */
+  toSearchParams(alert: PriceAlert): FlightSearchParams {
+    return {
+      from: alert.from,
+      to: alert.to,
+      departDate: alert.departDate,
+      returnDate: alert.returnDate ?? undefined,
+      passengers: alert.adults + alert.children + alert.infants,
+      passengerBreakdown: {
+        adults: alert.adults,
+        children: alert.children,
+        infants: alert.infants,
+      },
+      tripType: alert.tripType,
+      cabin: alert.cabin ?? undefined,
+      currency: alert.currency ?? undefined,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private tokenMatches(token: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashToken(token));
+    const expected = Buffer.from(expectedHash);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private validateNotifyTarget(type: string, target: string): string[] {
+    const notifier = this.notifiers.find((n) => n.type === type);
+    if (!notifier) {
+      return [`Unsupported notification type: ${type}`];
+    }
+    if (!notifier.isValidTarget(target)) {
+      return [`Invalid ${type} notification target`];
+    }
+    return [];
+  }
+}
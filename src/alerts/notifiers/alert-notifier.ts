@@ -0,0 +1,40 @@
+/**
+ * Payload sent when a price alert fires
+ */
+export interface PriceAlertNotification {
+  alertId: string;
+  reason: 'below-target' | 'price-drop';
+  from: string;
+  to: string;
+  departDate: string;
+  returnDate?: string;
+  currentPrice: number;
+  previousPrice?: number; // Price at the last notification (or baseline)
+  targetPrice: number;
+  currency: string;
+  bookingUrl?: string; // Cheapest offer's booking link
+  checkedAt: string; // ISO 8601
+}
+
+/**
+ * Interface that all alert notifiers must implement
+ * New channels (email, push) register under their own type
+ */
+export interface IAlertNotifier {
+  type: string;
+
+  /**
+   * Validate a target for this channel (e.g. a webhook URL)
+   */
+  isValidTarget(target: string): boolean;
+
+  /**
+   * Deliver a notification to the target
+   */
+  notify(target: string, notification: PriceAlertNotification): Promise<void>;
+}
+
+/**
+ * Injection token for the list of available notifiers
+ */
+export const ALERT_NOTIFIERS = 'ALERT_NOTIFIERS';
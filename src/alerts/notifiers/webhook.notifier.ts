@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import { Agent } from 'https';
+import { BlockList, isIP } from 'net';
+import { IAlertNotifier, PriceAlertNotification } from './alert-notifier';
+
+// Addresses a webhook may never reach: loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+ */
+function isPublicAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const ip = mapped ? mapped[1] : address;
+  const family = isIP(ip);
+
+  return family !== 0 && !blockedAddresses.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to non-public addresses
+ * Used for the connection itself, so a hostname can't pass validation and
+ * then resolve somewhere internal (DNS rebinding)
+ */
+function publicOnlyLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked) {
+      callback(new Error(`Webhook host ${hostname} resolves to non-public address ${blocked.address}`), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Webhook Notifier
+ * POSTs the notification as JSON to the alert's target URL
+ * Targets must be https on a public host; redirects aren't followed
+ */
+@Injectable()
+export class WebhookNotifier implements IAlertNotifier {
+  type = 'webhook';
+  private readonly agent = new Agent({ lookup: publicOnlyLookup });
+
+  isValidTarget(target: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(target);
+    } catch {
+      return false;
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (url.protocol !== 'https:' || url.username || url.password) {
+      return false;
+    }
+    // Single-label names (e.g. `metadata`) only resolve on internal networks
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || (!hostname.includes('.') && !isIP(hostname))) {
+      return false;
+    }
+
+    // Hostnames are checked again when they are resolved at delivery time
+    return isIP(hostname) === 0 || isPublicAddress(hostname);
+  }
+
+  async notify(target: string, notification: PriceAlertNotification): Promise<void> {
+    if (!this.isValidTarget(target)) {
+      throw new Error('Webhook target is not an https URL on a public host');
+    }
+
+    await axios.post(target, { event: 'price_alert', ...notification }, {
+      timeout: parseInt(process.env.ALERT_WEBHOOK_TIMEOUT_MS || '5000'),
+      headers: { 'Content-Type': 'application/json' },
+      httpsAgent: this.agent,
+      maxRedirects: 0,
+      proxy: false,
+    });
+  }
+}
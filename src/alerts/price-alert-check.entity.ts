@@ -0,0 +1,36 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { numericTransformer } from '../database/numeric.transformer';
+import { PriceAlert } from './price-alert.entity';
+
+/**
+ * Result of one scheduled re-check of a price alert
+ */
+@Entity('price_alert_checks')
+export class PriceAlertCheck {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  alertId!: string;
+
+  @ManyToOne(() => PriceAlert, (alert) => alert.checks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'alertId' })
+  alert!: PriceAlert;
+
+  // null when the search returned no flights
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true, transformer: numericTransformer })
+  bestPrice!: number | null;
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  currency!: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  resultsCount!: number;
+
+  @Column({ type: 'boolean', default: false })
+  notified!: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  checkedAt!: Date;
+}
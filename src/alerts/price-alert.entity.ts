@@ -0,0 +1,93 @@
+import { Column, CreateDateColumn, Entity, Index, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { numericTransformer } from '../database/numeric.transformer';
+import { PriceAlertCheck } from './price-alert-check.entity';
+
+export type PriceAlertStatus = 'active' | 'paused' | 'expired';
+
+/**
+ * A saved route the user wants to be notified about when the price drops
+ */
+@Entity('price_alerts')
+export class PriceAlert {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'origin', length: 3 })
+  from!: string;
+
+  @Column({ name: 'destination', length: 3 })
+  to!: string;
+
+  @Column({ type: 'date' })
+  departDate!: string; // YYYY-MM-DD
+
+  @Column({ type: 'date', nullable: true })
+  returnDate!: string | null; // YYYY-MM-DD for round-trip
+
+  @Column({ type: 'varchar', length: 16 })
+  tripType!: 'one-way' | 'round-trip';
+
+  @Column({ type: 'int', default: 1 })
+  adults!: number;
+
+  @Column({ type: 'int', default: 0 })
+  children!: number;
+
+  @Column({ type: 'int', default: 0 })
+  infants!: number;
+
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  cabin!: 'economy' | 'business' | 'first' | 'premium-economy' | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: numericTransformer })
+  targetPrice!: number;
+
+  // Also notify when the price falls by this percentage since the last notification
+  @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true, transformer: numericTransformer })
+  dropPercent!: number | null;
+
+  @Column({ type: 'varchar', length: 16 })
+  notifyType!: string; // Notifier type, e.g. 'webhook'
+
+  @Column({ type: 'varchar', length: 2048 })
+  notifyTarget!: string; // Notifier-specific target, e.g. webhook URL
+
+  // SHA-256 of the management token returned when the alert was created; never selected by default
+  @Column({ type: 'varchar', length: 64, select: false })
+  manageTokenHash!: string;
+
+  @Index()
+  @Column({ type: 'varchar', length: 16, default: 'active' })
+  status!: PriceAlertStatus;
+
+  // First price observed, used as the reference for percentage drops
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true, transformer: numericTransformer })
+  baselinePrice!: number | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true, transformer: numericTransformer })
+  lastPrice!: number | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true, transformer: numericTransformer })
+  lowestPrice!: number | null;
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  currency!: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastCheckedAt!: Date | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true, transformer: numericTransformer })
+  lastNotifiedPrice!: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastNotifiedAt!: Date | null;
+
+  @OneToMany(() => PriceAlertCheck, (check) => check.alert)
+  checks!: PriceAlertCheck[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt!: Date;
+}
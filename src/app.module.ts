@@ -1,7 +1,14 @@
 import { Module } from '@nestjs/common';
+import { DatabaseModule } from './database/database.module';
 import { FlightsModule } from './flights/flights.module';
+import { AlertsModule } from './alerts/alerts.module';
+import { AdminModule } from './admin/admin.module';
+import { AirportsModule } from './airports/airports.module';
+import { AirlinesModule } from './airlines/airlines.module';
+import { PriceHistoryModule } from './price-history/price-history.module';
+import { BookingModule } from './booking/booking.module';
 
 @Module({
-  imports: [FlightsModule],
+  imports: [DatabaseModule, FlightsModule, AlertsModule, AdminModule, AirportsModule, AirlinesModule, PriceHistoryModule, BookingModule],
 })
 export class AppModule {}
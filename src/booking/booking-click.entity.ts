@@ -0,0 +1,49 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryColumn } from 'typeorm';
+import { numericTransformer } from '../database/numeric.transformer';
+
+/**
+ * One click through to a booking partner, for affiliate attribution
+ * The id is sent to the partner as the sub-id, so commission reports can be
+ * joined back to the click
+ */
+@Entity('booking_clicks')
+@Index(['partner', 'clickedAt'])
+export class BookingClick {
+  @PrimaryColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  searchId!: string;
+
+  @Column({ type: 'varchar', length: 128 })
+  offerId!: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  provider!: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  partner!: string; // AffiliatePartner.key
+
+  @Column({ name: 'origin', length: 3 })
+  from!: string;
+
+  @Column({ name: 'destination', length: 3 })
+  to!: string;
+
+  @Column({ type: 'date' })
+  departDate!: string; // YYYY-MM-DD
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: numericTransformer })
+  price!: number; // As shown to the user
+
+  @Column({ type: 'varchar', length: 3 })
+  currency!: string;
+
+  @Column({ type: 'text' })
+  redirectUrl!: string;
+
+  @Index()
+  @CreateDateColumn({ type: 'timestamptz' })
+  clickedAt!: Date;
+}
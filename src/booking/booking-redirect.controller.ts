@@ -0,0 +1,25 @@
+import { Controller, Get, Param, ParseUUIDPipe, Redirect } from '@nestjs/common';
+import { BookingRedirectService } from './booking-redirect.service';
+
+/**
+ * Booking Redirect Controller
+ * Booking URLs in search sessions point here so every click is attributed
+ */
+@Controller('api/redirect')
+export class BookingRedirectController {
+  constructor(private bookingRedirectService: BookingRedirectService) {}
+
+  /**
+   * GET /api/redirect/:searchId/:offerId
+   * Log the click, then 302 to the booking partner
+   */
+  @Get(':searchId/:offerId')
+  @Redirect()
+  async redirect(
+    @Param('searchId', ParseUUIDPipe) searchId: string,
+    @Param('offerId') offerId: string,
+  ): Promise<{ url: string; statusCode: number }> {
+    const url = await this.bookingRedirectService.redirect(searchId, offerId);
+    return { url, statusCode: 302 };
+  }
+}
@@ -0,0 +1,81 @@
+import { NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { BookingRedirectService } from './booking-redirect.service';
+import { BookingClick } from './booking-click.entity';
+import { SearchSessionService } from '../aggregator/search-session.service';
+import { SessionOffer } from '../aggregator/raw-offers';
+import { AffiliateLinksService } from '../affiliate/affiliate-links.service';
+import { FlightSearchParams } from '../common/types';
+
+describe('BookingRedirectService', () => {
+  const query: FlightSearchParams = { from: 'lhr', to: 'jfk', departDate: '2099-06-01', tripType: 'one-way' };
+  const offer: SessionOffer = {
+    id: 'offer-1',
+    provider: 'amadeus',
+    price: 420,
+    currency: 'EUR',
+    bookingUrl: 'https://www.expedia.com/Flights-Search?mode=search',
+    airlineCode: 'ZZ',
+  };
+
+  let insert: jest.Mock;
+  let getOffer: jest.Mock;
+  let service: BookingRedirectService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    insert = jest.fn().mockResolvedValue(undefined);
+    getOffer = jest.fn().mockResolvedValue({ query, offer });
+    service = new BookingRedirectService(
+      { insert } as unknown as Repository<BookingClick>,
+      { getOffer } as unknown as SearchSessionService,
+      new AffiliateLinksService(),
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('tags the partner link with a click id and records the click', async () => {
+    const redirectUrl = await service.redirect('search-1', 'offer-1');
+    const clickId = new URL(redirectUrl).searchParams.get('afflid');
+
+    expect(getOffer).toHaveBeenCalledWith('search-1', 'offer-1');
+    expect(clickId).toBeTruthy();
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: clickId,
+        searchId: 'search-1',
+        offerId: 'offer-1',
+        provider: 'amadeus',
+        partner: 'expedia',
+        from: 'LHR',
+        to: 'JFK',
+        price: 420,
+        redirectUrl,
+      }),
+    );
+  });
+
+  it('gives every click its own id', async () => {
+    const first = await service.redirect('search-1', 'offer-1');
+    const second = await service.redirect('search-1', 'offer-1');
+
+    expect(first).not.toBe(second);
+  });
+
+  it('still redirects when the click cannot be recorded', async () => {
+    insert.mockRejectedValue(new Error('database down'));
+
+    await expect(service.redirect('search-1', 'offer-1')).resolves.toContain('afflid=');
+  });
+
+  it('rejects offers that are not in the session', async () => {
+    getOffer.mockResolvedValue(null);
+
+    await expect(service.redirect('expired', 'offer-1')).rejects.toBeInstanceOf(NotFoundException);
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { BookingClick } from './booking-click.entity';
+import { SearchSessionService } from '../aggregator/search-session.service';
+import { AffiliateLinksService } from '../affiliate/affiliate-links.service';
+
+/**
+ * Booking Redirect Service
+ * Logs a click on an offer from a search session and returns the partner
+ * link to send the user to, tagged with the click id
+ */
+@Injectable()
+export class BookingRedirectService {
+  constructor(
+    @InjectRepository(BookingClick) private clicks: Repository<BookingClick>,
+    private searchSessionService: SearchSessionService,
+    private affiliateLinks: AffiliateLinksService,
+  ) {}
+
+  /**
+   * Record a click and get the partner URL
+   * A failure to record the click is logged but still redirects: losing the
+   * attribution is better than losing the booking
+   */
+  async redirect(searchId: string, offerId: string): Promise<string> {
+    const stored = await this.searchSessionService.getOffer(searchId, offerId);
+    if (!stored) {
+      throw new NotFoundException(`Offer ${offerId} not found in search ${searchId}; the search may have expired`);
+    }
+
+    const { query, offer } = stored;
+    const partner = this.affiliateLinks.getPartner(offer.provider, offer.airlineCode, query);
+    const clickId = randomUUID();
+    const redirectUrl = this.affiliateLinks.addSubId(offer.bookingUrl, partner, clickId);
+
+    try {
+      await this.clicks.insert({
+        id: clickId,
+        searchId,
+        offerId,
+        provider: offer.provider,
+        partner: partner.key,
+        from: query.from.toUpperCase(),
+        to: query.to.toUpperCase(),
+        departDate: query.departDate,
+        price: offer.price,
+        currency: offer.currency,
+        redirectUrl,
+      });
+    } catch (error) {
+      console.error(`[BOOKING] Failed to record click on ${offerId} for search ${searchId}:`, error);
+    }
+
+    console.log(`[BOOKING] ${offer.provider} offer ${offerId} -> ${partner.name}`);
+    return redirectUrl;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BookingRedirectController } from './booking-redirect.controller';
+import { BookingRedirectService } from './booking-redirect.service';
+import { BookingClick } from './booking-click.entity';
+import { FlightsModule } from '../flights/flights.module';
+import { AffiliateModule } from '../affiliate/affiliate.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([BookingClick]), FlightsModule, AffiliateModule],
+  controllers: [BookingRedirectController],
+  providers: [BookingRedirectService],
+})
+export class BookingModule {}
@@ -1,25 +1,49 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { createClient, RedisClientType } from 'redis';
+import { LruCache } from './lru-cache';
+import { CacheStats } from '../common/types';
 
 /**
- * Cache Service using Redis
+ * What is stored in both tiers
+ * Entries are kept until expiresAt but only fresh until freshUntil; the gap
+ * is the window in which a stale value can be served while it is refreshed
+ */
+interface CacheEnvelope<T> {
+  value: T;
+  freshUntil: number; // Epoch ms
+  expiresAt: number; // Epoch ms
+}
+
+/**
+ * Cache Service
  * Stores flight search results to reduce API calls
+ * An in-process LRU sits in front of Redis and keeps caching (per instance)
+ * while Redis is unavailable
  */
 @Injectable()
-export class CacheService {
+export class CacheService implements OnModuleInit, OnModuleDestroy {
+  private readonly enabled = process.env.CACHE_ENABLED !== 'false';
+  private memory = new LruCache(parseInt(process.env.CACHE_MEMORY_MAX_MB || '64') * 1024 * 1024);
   private redisClient: RedisClientType | null = null;
   private isConnected = false;
+  private counters = { hits: 0, misses: 0, stale: 0, memoryHits: 0, redisHits: 0 };
 
-  constructor() {
-    if (process.env.CACHE_ENABLED === 'false') {
+  async onModuleInit(): Promise<void> {
+    if (!this.enabled) {
       console.log('Cache disabled via CACHE_ENABLED=false');
       return;
     }
-    this.initializeRedis();
+    await this.initializeRedis();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.disconnect();
   }
 
   /**
    * Initialize Redis connection
+   * A failed connection leaves the in-memory tier working on its own
    */
   private async initializeRedis(): Promise<void> {
     try {
@@ -38,44 +62,102 @@ export class CacheService {
           },
         },
         password: process.env.REDIS_PASSWORD,
+        // Fail fast while disconnected instead of queueing commands behind the reconnect
+        disableOfflineQueue: true,
+      });
+
+      this.redisClient.on('ready', () => {
+        this.isConnected = true;
+      });
+      this.redisClient.on('end', () => {
+        this.isConnected = false;
+      });
+      this.redisClient.on('error', (error) => {
+        if (this.isConnected) {
+          console.warn('Redis connection lost, using in-memory cache only:', error.message);
+        }
+        this.isConnected = false;
       });
 
       await this.redisClient.connect();
       this.isConnected = true;
       console.log('Redis cache connected');
     } catch (error) {
-      console.warn('Failed to connect to Redis, cache disabled:', error);
+      console.warn('Failed to connect to Redis, using in-memory cache only:', error);
       this.isConnected = false;
     }
   }
 
   /**
-   * Get a value from cache
+   * Get a fresh value from cache
    */
   async get<T>(key: string): Promise<T | null> {
-    if (!this.isConnected || !this.redisClient) {
+    const entry = await this.read<T>(key);
+
+    if (!entry || entry.freshUntil <= Date.now()) {
+      this.counters.misses++;
       return null;
     }
 
-    try {
-      const value = await this.redisClient.get(key);
-      return value ? JSON.parse(value) : null;
-    } catch (error) {
-      console.error(`Cache get error for key ${key}:`, error);
+    this.counters.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Get a fresh value from Redis, skipping the in-memory tier
+   * For waiting on a value another instance is about to write
+   */
+  async getShared<T>(key: string): Promise<T | null> {
+    if (!this.enabled) {
       return null;
     }
+
+    const entry = await this.readRedis<T>(key);
+    return entry && entry.freshUntil > Date.now() ? entry.value : null;
+  }
+
+  /**
+   * Get a value that may be past its TTL but is still in its stale window
+   * Callers serving a stale value are expected to refresh it
+   */
+  async getWithStale<T>(key: string): Promise<{ value: T; stale: boolean } | null> {
+    const entry = await this.read<T>(key);
+
+    if (!entry) {
+      this.counters.misses++;
+      return null;
+    }
+
+    const stale = entry.freshUntil <= Date.now();
+    this.counters[stale ? 'stale' : 'hits']++;
+    return { value: entry.value, stale };
   }
 
   /**
    * Set a value in cache with TTL
+   * staleTtlSeconds keeps it available to getWithStale for that long after it expires
    */
-  async set<T>(key: string, value: T, ttlSeconds: number = 600): Promise<void> {
+  async set<T>(key: string, value: T, ttlSeconds: number = 600, staleTtlSeconds: number = 0): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    const envelope: CacheEnvelope<T> = {
+      value,
+      freshUntil: now + ttlSeconds * 1000,
+      expiresAt: now + (ttlSeconds + staleTtlSeconds) * 1000,
+    };
+    const serialized = JSON.stringify(envelope);
+
+    this.memory.set(key, serialized, envelope.expiresAt);
+
     if (!this.isConnected || !this.redisClient) {
       return;
     }
 
     try {
-      await this.redisClient.setEx(key, ttlSeconds, JSON.stringify(value));
+      await this.redisClient.setEx(key, ttlSeconds + staleTtlSeconds, serialized);
     } catch (error) {
       console.error(`Cache set error for key ${key}:`, error);
     }
@@ -85,6 +167,8 @@ export class CacheService {
    * Delete a value from cache
    */
   async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+
     if (!this.isConnected || !this.redisClient) {
       return;
     }
@@ -100,6 +184,8 @@ export class CacheService {
    * Clear all cache
    */
   async clear(): Promise<void> {
+    this.memory.clear();
+
     if (!this.isConnected || !this.redisClient) {
       return;
     }
@@ -111,6 +197,61 @@ export class CacheService {
     }
   }
 
+  /**
+   * Take a short-lived lock shared by every instance
+   * Returns a token to release it with, or null if another holder has it
+   * Without Redis there is no one to coordinate with, so the lock is always granted
+   */
+  async acquireLock(key: string, ttlSeconds: number): Promise<string | null> {
+    const token = randomUUID();
+
+    if (!this.isConnected || !this.redisClient) {
+      return token;
+    }
+
+    try {
+      const result = await this.redisClient.set(key, token, { NX: true, EX: ttlSeconds });
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      console.error(`Cache lock error for key ${key}:`, error);
+      return token;
+    }
+  }
+
+  /**
+   * Release a lock, unless it expired and someone else has taken it since
+   */
+  async releaseLock(key: string, token: string): Promise<void> {
+    if (!this.isConnected || !this.redisClient) {
+      return;
+    }
+
+    try {
+      await this.redisClient.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        { keys: [key], arguments: [token] },
+      );
+    } catch (error) {
+      console.error(`Cache unlock error for key ${key}:`, error);
+    }
+  }
+
+  /**
+   * Whether a lock is currently held
+   */
+  async isLocked(key: string): Promise<boolean> {
+    if (!this.isConnected || !this.redisClient) {
+      return false;
+    }
+
+    try {
+      return (await this.redisClient.exists(key)) === 1;
+    } catch (error) {
+      console.error(`Cache lock check error for key ${key}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Check if Redis is connected
    */
@@ -118,13 +259,96 @@ export class CacheService {
     return this.isConnected;
   }
 
+  /**
+   * Hit, miss and stale counts since startup, plus the state of each tier
+   */
+  getStats(): CacheStats {
+    const { hits, misses, stale, memoryHits, redisHits } = this.counters;
+    const lookups = hits + misses + stale;
+    const memory = this.memory.stats;
+
+    return {
+      enabled: this.enabled,
+      hits,
+      misses,
+      stale,
+      hitRate: lookups > 0 ? Math.round(((hits + stale) / lookups) * 1000) / 1000 : 0,
+      memory: { entries: memory.entries, sizeBytes: memory.size, maxSizeBytes: memory.maxSize, hits: memoryHits },
+      redis: { connected: this.isConnected, hits: redisHits },
+    };
+  }
+
   /**
    * Disconnect from Redis
    */
   async disconnect(): Promise<void> {
     if (this.redisClient) {
-      await this.redisClient.quit();
+      const client = this.redisClient;
+      this.redisClient = null;
       this.isConnected = false;
+
+      try {
+        await client.quit();
+      } catch {
+        // Already closed
+      }
+    }
+  }
+
+  /**
+   * Read an entry from memory, then Redis
+   * A stale local copy falls through to Redis, since another instance may have
+   * refreshed the entry since; it is only served if Redis has nothing newer
+   * Redis hits are copied into memory so the next read stays in-process
+   */
+  private async read<T>(key: string): Promise<CacheEnvelope<T> | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const serialized = this.memory.get(key);
+    const local: CacheEnvelope<T> | null = serialized ? JSON.parse(serialized) : null;
+    if (local && local.freshUntil > Date.now()) {
+      this.counters.memoryHits++;
+      return local;
+    }
+
+    const remote = await this.readRedis<T>(key);
+    if (remote && (!local || remote.freshUntil > local.freshUntil)) {
+      this.counters.redisHits++;
+      return remote;
+    }
+
+    if (local) {
+      this.counters.memoryHits++;
+    }
+    return local;
+  }
+
+  /**
+   * Read an entry from Redis only, copying it into memory
+   */
+  private async readRedis<T>(key: string): Promise<CacheEnvelope<T> | null> {
+    if (!this.isConnected || !this.redisClient) {
+      return null;
+    }
+
+    try {
+      const value = await this.redisClient.get(key);
+      if (!value) {
+        return null;
+      }
+
+      const envelope: CacheEnvelope<T> = JSON.parse(value);
+      if (typeof envelope.expiresAt !== 'number') {
+        return null; // Written before entries had an envelope
+      }
+
+      this.memory.set(key, value, envelope.expiresAt);
+      return envelope;
+    } catch (error) {
+      console.error(`Cache get error for key ${key}:`, error);
+      return null;
     }
   }
 }
@@ -0,0 +1,82 @@
+import { LruCache } from './lru-cache';
+
+describe('LruCache', () => {
+  const later = () => Date.now() + 60000;
+
+  it('returns stored values', () => {
+    const cache = new LruCache(100);
+    cache.set('a', 'aaaa', later());
+
+    expect(cache.get('a')).toBe('aaaa');
+    expect(cache.get('missing')).toBeNull();
+  });
+
+  it('evicts the least recently used entries once over the size limit', () => {
+    const cache = new LruCache(10);
+    cache.set('a', 'aaaa', later());
+    cache.set('b', 'bbbb', later());
+    cache.set('c', 'cccc', later());
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).toBe('bbbb');
+    expect(cache.get('c')).toBe('cccc');
+    expect(cache.stats).toEqual({ entries: 2, size: 8, maxSize: 10 });
+  });
+
+  it('counts a read as a use', () => {
+    const cache = new LruCache(10);
+    cache.set('a', 'aaaa', later());
+    cache.set('b', 'bbbb', later());
+    cache.get('a');
+    cache.set('c', 'cccc', later());
+
+    expect(cache.get('a')).toBe('aaaa');
+    expect(cache.get('b')).toBeNull();
+  });
+
+  it('evicts as many entries as it takes to fit a large value', () => {
+    const cache = new LruCache(10);
+    cache.set('a', 'aaa', later());
+    cache.set('b', 'bbb', later());
+    cache.set('c', 'ccc', later());
+    cache.set('d', 'dddddddd', later());
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('c')).toBeNull();
+    expect(cache.get('d')).toBe('dddddddd');
+  });
+
+  it('does not store a value bigger than the whole cache', () => {
+    const cache = new LruCache(10);
+    cache.set('a', 'aaaa', later());
+    cache.set('big', 'x'.repeat(11), later());
+
+    expect(cache.get('big')).toBeNull();
+    expect(cache.get('a')).toBe('aaaa');
+  });
+
+  it('replaces a value without counting the old one towards the size', () => {
+    const cache = new LruCache(10);
+    cache.set('a', 'aaaa', later());
+    cache.set('a', 'aaaaaa', later());
+
+    expect(cache.get('a')).toBe('aaaaaa');
+    expect(cache.stats.size).toBe(6);
+  });
+
+  it('drops expired entries on read', () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new LruCache(10);
+      cache.set('a', 'aaaa', Date.now() + 1000);
+
+      jest.advanceTimersByTime(1000);
+
+      expect(cache.get('a')).toBeNull();
+      expect(cache.stats).toEqual({ entries: 0, size: 0, maxSize: 10 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
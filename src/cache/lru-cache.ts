@@ -0,0 +1,65 @@
+/**
+ * In-process LRU cache of serialized values
+ * Bounded by the total length of the stored strings rather than entry count,
+ * since a search result can be thousands of times larger than a small entry
+ */
+export class LruCache {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries: Map<string, { value: string; expiresAt: number }> = new Map();
+  private size = 0;
+
+  constructor(private readonly maxSize: number) {}
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, expiresAt: number): void {
+    this.delete(key);
+
+    // A value bigger than the whole cache would just evict everything else
+    if (value.length > this.maxSize) {
+      return;
+    }
+
+    this.entries.set(key, { value, expiresAt });
+    this.size += value.length;
+
+    for (const [oldestKey] of this.entries) {
+      if (this.size <= this.maxSize) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.size -= entry.value.length;
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.size = 0;
+  }
+
+  get stats(): { entries: number; size: number; maxSize: number } {
+    return { entries: this.entries.size, size: this.size, maxSize: this.maxSize };
+  }
+}
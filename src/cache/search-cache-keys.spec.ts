@@ -0,0 +1,104 @@
+import { FlightSearchParams } from '../common/types';
+import { buildProviderCacheKey, buildSearchCacheKey } from './search-cache-keys';
+
+describe('search cache keys', () => {
+  const base: FlightSearchParams = {
+    from: 'LHR',
+    to: 'JFK',
+    departDate: '2026-12-01',
+    tripType: 'one-way',
+    currency: 'EUR',
+  };
+
+  describe('buildSearchCacheKey', () => {
+    it('is the same for equivalent searches', () => {
+      const key = buildSearchCacheKey(base);
+
+      expect(buildSearchCacheKey({ ...base, from: 'lhr', to: 'jfk', currency: 'eur' })).toBe(key);
+      expect(buildSearchCacheKey({ ...base, passengers: 1 })).toBe(key);
+      expect(buildSearchCacheKey({ ...base, passengerBreakdown: { adults: 1, children: 0, infants: 0 } })).toBe(key);
+      expect(buildSearchCacheKey({ ...base, checkedBags: 1 })).toBe(key);
+      expect(buildSearchCacheKey({ ...base, airlines: [] })).toBe(key);
+      expect(buildSearchCacheKey({ ...base, includeProviders: [] })).toBe(key);
+    });
+
+    it('ignores fields that only affect a round trip on other trip types', () => {
+      expect(buildSearchCacheKey({ ...base, returnDate: '2026-12-08' })).toBe(buildSearchCacheKey(base));
+    });
+
+    it('ignores ranking and the price basis without a price cap', () => {
+      expect(buildSearchCacheKey({ ...base, ranking: { profile: 'cheapest' }, priceBasis: 'with-bags' })).toBe(
+        buildSearchCacheKey(base),
+      );
+    });
+
+    it('ignores the order of airlines and providers', () => {
+      expect(buildSearchCacheKey({ ...base, airlines: ['ba', 'AA'], includeProviders: ['kiwi', 'amadeus'] })).toBe(
+        buildSearchCacheKey({ ...base, airlines: ['AA', 'BA'], includeProviders: ['amadeus', 'kiwi'] }),
+      );
+    });
+
+    it('treats a legacy passenger count as that many adults', () => {
+      expect(buildSearchCacheKey({ ...base, passengers: 2 })).toBe(
+        buildSearchCacheKey({ ...base, passengerBreakdown: { adults: 2, children: 0, infants: 0 } }),
+      );
+    });
+
+    it.each<[string, Partial<FlightSearchParams>]>([
+      ['route', { to: 'EWR' }],
+      ['date', { departDate: '2026-12-02' }],
+      ['trip type', { tripType: 'round-trip', returnDate: '2026-12-08' }],
+      ['passengers', { passengerBreakdown: { adults: 1, children: 1, infants: 0 } }],
+      ['cabin', { cabin: 'business' }],
+      ['currency', { currency: 'USD' }],
+      ['checked bags', { checkedBags: 2 }],
+      ['airlines', { airlines: ['BA'] }],
+      ['price cap', { maxPrice: 500 }],
+      ['providers', { includeProviders: ['kiwi'] }],
+    ])('changes with the %s', (_, change) => {
+      expect(buildSearchCacheKey({ ...base, ...change })).not.toBe(buildSearchCacheKey(base));
+    });
+
+    it('includes the price basis when there is a price cap', () => {
+      const capped = { ...base, maxPrice: 500 };
+
+      expect(buildSearchCacheKey({ ...capped, priceBasis: 'total' })).toBe(buildSearchCacheKey(capped));
+      expect(buildSearchCacheKey({ ...capped, priceBasis: 'with-bags' })).not.toBe(buildSearchCacheKey(capped));
+    });
+
+    it('only adds the return route for open jaws', () => {
+      const roundTrip: FlightSearchParams = { ...base, tripType: 'round-trip', returnDate: '2026-12-08' };
+
+      expect(buildSearchCacheKey({ ...roundTrip, returnFrom: 'JFK', returnTo: 'LHR' })).toBe(buildSearchCacheKey(roundTrip));
+      expect(buildSearchCacheKey({ ...roundTrip, returnFrom: 'EWR' })).not.toBe(buildSearchCacheKey(roundTrip));
+    });
+
+    it('keys multi-city searches by their segments', () => {
+      const multiCity: FlightSearchParams = {
+        ...base,
+        tripType: 'multi-city',
+        segments: [
+          { from: 'LHR', to: 'CDG', departDate: '2026-12-01' },
+          { from: 'CDG', to: 'JFK', departDate: '2026-12-05' },
+        ],
+      };
+
+      expect(buildSearchCacheKey({ ...multiCity, from: 'XXX' })).toBe(buildSearchCacheKey(multiCity));
+      expect(
+        buildSearchCacheKey({ ...multiCity, segments: [...multiCity.segments!].reverse() }),
+      ).not.toBe(buildSearchCacheKey(multiCity));
+    });
+  });
+
+  describe('buildProviderCacheKey', () => {
+    it('is shared by searches that differ only in aggregator-side options', () => {
+      expect(buildProviderCacheKey('kiwi', { ...base, maxPrice: 500, includeProviders: ['kiwi'] })).toBe(
+        buildProviderCacheKey('kiwi', base),
+      );
+    });
+
+    it('is separate per provider', () => {
+      expect(buildProviderCacheKey('kiwi', base)).not.toBe(buildProviderCacheKey('amadeus', base));
+    });
+  });
+});
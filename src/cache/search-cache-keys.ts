@@ -0,0 +1,61 @@
+import { createHash } from 'crypto';
+import { FlightSearchParams } from '../common/types';
+import { getReturnRoute, isOpenJaw } from '../common/trip.utils';
+
+/**
+ * Cache keys for flight searches
+ * Keys are a hash of the normalized params, so equivalent searches share an
+ * entry (e.g. `passengers: 2` and 2 adults) and every field that changes the
+ * result is part of the key. Ranking isn't: cached results are re-ranked
+ */
+
+/**
+ * Key for an aggregated search result
+ * `currency` must already be resolved (it isn't defaulted here)
+ */
+export function buildSearchCacheKey(params: FlightSearchParams): string {
+  return `flight_search:${hash({
+    ...normalizeQuery(params),
+    maxPrice: params.maxPrice ?? null,
+    priceBasis: params.maxPrice ? params.priceBasis ?? 'total' : null,
+    providers: params.includeProviders?.length ? [...params.includeProviders].sort() : null,
+  })}`;
+}
+
+/**
+ * Key for one provider's normalized results
+ * Leaves out maxPrice and the provider selection, which are applied by the
+ * aggregator, so any search for the same trip can reuse the entry
+ */
+export function buildProviderCacheKey(provider: string, params: FlightSearchParams): string {
+  return `provider_search:${provider}:${hash(normalizeQuery(params))}`;
+}
+
+/**
+ * The fields providers are queried with, in a fixed shape
+ */
+function normalizeQuery(params: FlightSearchParams): Record<string, unknown> {
+  const breakdown = params.passengerBreakdown;
+  const isMultiCity = params.tripType === 'multi-city';
+
+  return {
+    tripType: params.tripType,
+    route: isMultiCity
+      ? (params.segments || []).map((s) => [s.from.toUpperCase(), s.to.toUpperCase(), s.departDate])
+      : [params.from.toUpperCase(), params.to.toUpperCase(), params.departDate],
+    returnDate: params.tripType === 'round-trip' ? params.returnDate ?? null : null,
+    // Only set for open jaws, so ordinary round trips keep their existing keys
+    ...(isOpenJaw(params) && { returnRoute: Object.values(getReturnRoute(params)) }),
+    passengers: breakdown
+      ? [breakdown.adults, breakdown.children, breakdown.infants]
+      : [params.passengers ?? 1, 0, 0],
+    cabin: params.cabin ?? null,
+    currency: params.currency?.toUpperCase() ?? null,
+    checkedBags: params.checkedBags ?? 1,
+    airlines: params.airlines?.length ? params.airlines.map((code) => code.toUpperCase()).sort() : null,
+  };
+}
+
+function hash(value: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 32);
+}
@@ -0,0 +1,27 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Admin Guard
+ * Requires the X-Admin-Key header to match ADMIN_API_KEY
+ * Admin routes are closed entirely when ADMIN_API_KEY is not set
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const expected = process.env.ADMIN_API_KEY;
+    const provided = context.switchToHttp().getRequest().headers['x-admin-key'];
+
+    if (!expected || typeof provided !== 'string' || !this.safeEqual(provided, expected)) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const aBuf = Buffer.from(a);
+    const bBuf = Buffer.from(b);
+    return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Date helpers for YYYY-MM-DD strings
+ * All calculations are done in UTC so server timezone never shifts a date
+ */
+
+/**
+ * Add (or subtract) whole days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date as YYYY-MM-DD (UTC)
+ */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
@@ -0,0 +1,34 @@
+import { ArgumentMetadata, BadRequestException, ValidationPipe } from '@nestjs/common';
+import { FilterFlightsDto, FlightFilterDto } from './dto';
+
+describe('FilterFlightsDto', () => {
+  // Same options as the global pipe in main.ts
+  const pipe = new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true });
+  const metadata: ArgumentMetadata = { type: 'body', metatype: FilterFlightsDto };
+  const flights = [{ id: 'demo_1', price: 300 }];
+
+  it('validates and transforms the nested filters', async () => {
+    const body: FilterFlightsDto = await pipe.transform({ flights, filters: { maxPrice: '400', airlines: 'BA,AA' } }, metadata);
+
+    expect(body.filters).toBeInstanceOf(FlightFilterDto);
+    expect(body.filters).toMatchObject({ maxPrice: 400, airlines: ['BA', 'AA'] });
+    expect(body.flights).toEqual(flights);
+  });
+
+  it('accepts a body without filters', async () => {
+    await expect(pipe.transform({ flights }, metadata)).resolves.toMatchObject({ flights });
+  });
+
+  it.each([
+    ['an unknown ranking profile', { rankingProfile: 'fastest-ever' }],
+    ['an unknown ranking weight', { rankingWeights: { comfort: 1 } }],
+    ['a negative ranking weight', { rankingWeights: { price: -1 } }],
+    ['an unknown filter', { maxLegroom: 80 }],
+  ])('rejects %s', async (_, filters) => {
+    await expect(pipe.transform({ flights, filters }, metadata)).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejects flights that are not objects', async () => {
+    await expect(pipe.transform({ flights: ['demo_1'] }, metadata)).rejects.toThrow(BadRequestException);
+  });
+});
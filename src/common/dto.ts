@@ -1,15 +1,102 @@
-import { IsString, IsOptional, IsNumber, IsEnum, Min, Max, ValidateIf, IsArray } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsEnum,
+  Min,
+  Max,
+  ValidateIf,
+  IsArray,
+  IsBoolean,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Length,
+  Matches,
+  IsUUID,
+  IsInt,
+  IsObject,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { AirlineAlliance, CabinClass, FlightFilterCriteria, NormalizedFlight, PriceBasis, RankingProfile } from './types';
+import { RANKING_PROFILES } from '../ranking/ranking.strategies';
+
+const PRICE_BASES: PriceBasis[] = ['total', 'per-person', 'with-bags'];
+
+/**
+ * Per-request ranking weights, relative to each other
+ * Unset components keep the profile's default weight; 0 turns one off
+ */
+export class RankingWeightsDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  duration?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  stops?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  redEye?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  connections?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  airportDistance?: number;
+}
+
+/**
+ * DTO for a single multi-city leg
+ */
+export class FlightSegmentDto {
+  @IsString()
+  @Length(3, 3)
+  from!: string;
+
+  @IsString()
+  @Length(3, 3)
+  to!: string;
+
+  @IsString()
+  departDate!: string; // YYYY-MM-DD format
+}
 
 /**
  * DTO for flight search request
+ * Also used for query strings (GET /api/flights/search/stream), hence the
+ * explicit number conversions
  */
 export class FlightSearchDto {
+  // For multi-city searches the route comes from `segments` instead
+  @ValidateIf((o) => o.tripType !== 'multi-city' || o.from !== undefined)
   @IsString()
   from!: string;
 
+  @ValidateIf((o) => o.tripType !== 'multi-city' || o.to !== undefined)
   @IsString()
   to!: string;
 
+  @ValidateIf((o) => o.tripType !== 'multi-city' || o.departDate !== undefined)
   @IsString()
   departDate!: string; // YYYY-MM-DD format
 
@@ -17,24 +104,39 @@ export class FlightSearchDto {
   @IsString()
   returnDate?: string; // YYYY-MM-DD format
 
+  // Open-jaw round trips: the inbound leg's airports when it doesn't reverse the outbound
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  returnFrom?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  returnTo?: string;
+
+  @Type(() => Number)
   @IsNumber()
   @Min(1)
   @Max(9)
   passengers: number = 1;
 
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   @Min(1)
   @Max(9)
   adults?: number;
 
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   @Min(0)
   @Max(8)
   children?: number;
 
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   @Min(0)
   @Max(4)
@@ -43,41 +145,211 @@ export class FlightSearchDto {
   @IsEnum(['one-way', 'round-trip', 'multi-city'])
   tripType: 'one-way' | 'round-trip' | 'multi-city' = 'one-way';
 
+  @ValidateIf((o) => o.tripType === 'multi-city')
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => FlightSegmentDto)
+  segments?: FlightSegmentDto[];
+
   @IsOptional()
   @IsEnum(['economy', 'business', 'first', 'premium-economy'])
   cabin?: 'economy' | 'business' | 'first' | 'premium-economy';
 
+  // ISO 4217 code; prices are converted to it
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @Matches(/^[A-Z]{3}$/, { message: 'currency must be a 3-letter ISO 4217 code' })
+  currency?: string;
+
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   maxPrice?: number;
 
+  // Accepts a JSON array or a comma-separated query string (includeProviders=amadeus,kiwi)
   @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
   @IsArray()
   @IsString({ each: true })
   includeProviders?: string[];
+
+  @IsOptional()
+  @IsEnum(RANKING_PROFILES)
+  rankingProfile?: RankingProfile;
+
+  // In query strings: rankingWeights[price]=0.5&rankingWeights[duration]=0.5
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RankingWeightsDto)
+  rankingWeights?: RankingWeightsDto;
+
+  // What maxPrice and ranking compare
+  @IsOptional()
+  @IsEnum(PRICE_BASES)
+  priceBasis?: PriceBasis;
+
+  // Checked bags per passenger for priceBasis=with-bags
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(3)
+  checkedBags?: number;
+
+  // Also search airports within nearbyRadiusKm of the origin and destination
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
+  @IsBoolean()
+  includeNearbyAirports?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(10)
+  @Max(300)
+  nearbyRadiusKm?: number;
 }
 
 /**
  * DTO for flight filter/sort request
  */
-export class FlightFilterDto {
+export class FlightFilterDto implements FlightFilterCriteria {
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   maxPrice?: number;
 
+  // What maxPrice, sortBy=price and ranking compare
   @IsOptional()
+  @IsEnum(PRICE_BASES)
+  priceBasis?: PriceBasis;
+
+  @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   maxStops?: number;
 
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   maxDuration?: number; // In minutes
 
+  // Accepts a JSON array or a comma-separated query string (airlines=BA,AA)
+  // Matched against every segment's carrier, not just the first
   @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
   @IsArray()
   @IsString({ each: true })
   airlines?: string[];
 
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
+  @IsArray()
+  @IsString({ each: true })
+  excludeAirlines?: string[];
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
+  @IsArray()
+  @IsEnum(['Star Alliance', 'oneworld', 'SkyTeam'], { each: true })
+  alliances?: AirlineAlliance[];
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
+  @IsArray()
+  @IsEnum(['economy', 'premium-economy', 'business', 'first'], { each: true })
+  cabins?: CabinClass[];
+
+  // Time-of-day windows (HH:MM local) per direction; after > before wraps midnight
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  outboundDepartAfter?: string;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  outboundDepartBefore?: string;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  outboundArriveAfter?: string;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  outboundArriveBefore?: string;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  inboundDepartAfter?: string;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  inboundDepartBefore?: string;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  inboundArriveAfter?: string;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: '$property must be in HH:MM format' })
+  inboundArriveBefore?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minLayover?: number; // In minutes
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxLayover?: number; // In minutes
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
+  @IsArray()
+  @IsString({ each: true })
+  excludeConnectionAirports?: string[];
+
+  // Connect through at least one of these
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
+  @IsArray()
+  @IsString({ each: true })
+  connectionAirports?: string[];
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
+  @IsBoolean()
+  noOvernightLayovers?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
+  @IsBoolean()
+  noAirportChanges?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
+  @IsBoolean()
+  noRedEyes?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
+  @IsBoolean()
+  checkedBagIncluded?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
+  @IsBoolean()
+  refundable?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
+  @IsBoolean()
+  changeable?: boolean;
+
   @IsOptional()
   @IsEnum(['price', 'duration', 'stops', 'score'])
   sortBy?: 'price' | 'duration' | 'stops' | 'score';
@@ -85,4 +357,110 @@ export class FlightFilterDto {
   @IsOptional()
   @IsEnum(['asc', 'desc'])
   sortOrder?: 'asc' | 'desc';
+
+  // Re-rank with a different profile or weights before sorting
+  @IsOptional()
+  @IsEnum(RANKING_PROFILES)
+  rankingProfile?: RankingProfile;
+
+  // In query strings: rankingWeights[price]=0.5&rankingWeights[duration]=0.5
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RankingWeightsDto)
+  rankingWeights?: RankingWeightsDto;
+}
+
+/**
+ * DTO for re-filtering posted search results (POST /api/flights/filter)
+ * The flights are results this API returned, so only their shape is checked
+ */
+export class FilterFlightsDto {
+  @IsArray()
+  @IsObject({ each: true })
+  flights!: NormalizedFlight[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FlightFilterDto)
+  filters?: FlightFilterDto;
+}
+
+/**
+ * DTO for paging through a stored search session
+ * (GET /api/flights/search/:searchId)
+ */
+export class SearchSessionQueryDto extends FlightFilterDto {
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page: number = 1;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize: number = 20;
+}
+
+/**
+ * DTO for flexible-date search request
+ * Searches every date within ±flexibleDays of the requested dates
+ */
+export class FlexibleSearchDto extends FlightSearchDto {
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(3)
+  flexibleDays: number = 3;
+}
+
+/**
+ * DTO for price calendar query (GET /api/flights/calendar)
+ */
+export class PriceCalendarQueryDto {
+  @IsString()
+  @Length(3, 3)
+  from!: string;
+
+  @IsString()
+  @Length(3, 3)
+  to!: string;
+
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'month must be in YYYY-MM format' })
+  month!: string;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(9)
+  passengers: number = 1;
+
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @Matches(/^[A-Z]{3}$/, { message: 'currency must be a 3-letter ISO 4217 code' })
+  currency?: string;
+}
+
+/**
+ * DTO for airport autocomplete (GET /api/airports/search)
+ */
+export class AirportSearchQueryDto {
+  @IsString()
+  @Length(2, 64)
+  q!: string;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  limit: number = 10;
+}
+
+/**
+ * DTO for re-pricing an offer (POST /api/flights/offers/:id/confirm)
+ * Offer ids are only unique within a search, so the search is required
+ */
+export class ConfirmOfferDto {
+  @IsUUID()
+  searchId!: string;
 }
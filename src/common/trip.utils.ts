@@ -0,0 +1,28 @@
+import { FlightSearchParams } from './types';
+
+/**
+ * Trip helpers for search params
+ */
+
+/**
+ * Where a round trip's inbound leg departs and arrives
+ * Reverses the outbound leg unless returnFrom/returnTo make it an open jaw
+ */
+export function getReturnRoute(params: FlightSearchParams): { from: string; to: string } {
+  return {
+    from: (params.returnFrom || params.to).toUpperCase(),
+    to: (params.returnTo || params.from).toUpperCase(),
+  };
+}
+
+/**
+ * Whether a round trip's inbound leg isn't the outbound leg reversed
+ */
+export function isOpenJaw(params: FlightSearchParams): boolean {
+  if (params.tripType !== 'round-trip') {
+    return false;
+  }
+
+  const inbound = getReturnRoute(params);
+  return inbound.from !== params.to.toUpperCase() || inbound.to !== params.from.toUpperCase();
+}
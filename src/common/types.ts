@@ -5,18 +5,29 @@
 export interface NormalizedFlight {
   id: string; // Unique identifier (combination of provider + their ID)
   provider: string; // Which API provided this (amadeus, kiwi, skyscanner)
-  airline: string;
+  airline: string; // Marketing carrier name
   airlineCode: string;
+  alliance?: AirlineAlliance;
+  logoUrl?: string;
   departureTime: string; // ISO 8601 format
   arrivalTime: string; // ISO 8601 format
   duration: number; // In minutes
   stops: number;
   stopDetails?: StopDetail[];
   
-  price: number;
+  price: number; // In the requested currency, for everyone travelling (same as pricing.total)
   currency: string;
+  originalPrice?: number; // As quoted by the provider
+  originalCurrency?: string;
+  pricing?: FlightPricing; // In `currency`
   
   bookingUrl: string; // Affiliate deep link for monetization
+  fare?: FareDetails;
+  seatsLeft?: number; // Bookable seats at this price, when the provider says
+  lastTicketingDate?: string; // YYYY-MM-DD, last day the fare can be ticketed
+  offers?: FlightOffer[]; // Every provider selling this itinerary, cheapest first
+  rawOffer?: unknown; // Provider's own offer, for re-pricing; kept server-side and never returned
+  airportDistance?: AirportDistance; // Only on nearby-airport searches
   tripType: 'one-way' | 'round-trip' | 'multi-city';
   
   // Search metadata
@@ -25,7 +36,7 @@ export interface NormalizedFlight {
   departureDate: string; // YYYY-MM-DD
   returnDate?: string; // YYYY-MM-DD for round-trip
   
-  // Detailed itinerary (outbound + inbound for round-trip)
+  // Detailed itinerary (outbound + inbound for round-trip, one per leg for multi-city)
   itineraries?: FlightItinerary[];
 
   // Score for ranking
@@ -33,6 +44,65 @@ export interface NormalizedFlight {
   scoreBreakdown?: ScoreBreakdown;
 }
 
+/**
+ * How far a flight's airports are from the ones searched for
+ * 0 for the requested airports (or any airport of a requested metro code)
+ */
+export interface AirportDistance {
+  originKm: number;
+  destinationKm: number;
+}
+
+export type PassengerType = 'ADT' | 'CHD' | 'INF';
+
+/**
+ * What each passenger type pays
+ */
+export interface PassengerTypePrice {
+  type: PassengerType;
+  count: number;
+  perPassenger: number;
+  total: number;
+}
+
+/**
+ * Breakdown of a flight's price
+ * base + taxes + fees = total, when the provider reports them
+ */
+export interface FlightPricing {
+  total: number; // Everyone travelling
+  base?: number;
+  taxes?: number;
+  fees?: number;
+  perAdult: number;
+  byPassengerType?: PassengerTypePrice[];
+  totalWithBags?: { checkedBags: number; total: number }; // With N checked bags per (non-infant) passenger
+}
+
+/**
+ * Which price ranking and maxPrice compare
+ * - total: everyone travelling
+ * - per-person: one adult
+ * - with-bags: total including the requested checked bags, when the provider can price them
+ */
+export type PriceBasis = 'total' | 'per-person' | 'with-bags';
+
+/**
+ * One provider's offer for an itinerary
+ * `price`/`currency` are in the requested currency; the top-level flight
+ * fields always match the cheapest offer
+ */
+export interface FlightOffer {
+  id: string; // The provider's flight id
+  provider: string;
+  price: number;
+  currency: string;
+  originalPrice?: number;
+  originalCurrency?: string;
+  bookingUrl: string;
+  rawOffer?: unknown; // See NormalizedFlight.rawOffer
+}
+
 export interface FlightSegmentDetail {
   departureAirport: string;
   departureTerminal?: string;
@@ -42,14 +112,57 @@ export interface FlightSegmentDetail {
   arrivalTime: string;
   carrierCode: string;
   carrierName?: string;
+  alliance?: AirlineAlliance;
+  logoUrl?: string;
   flightNumber: string;
   aircraft?: string;
   duration: number;
   cabin?: string;
+  fare?: SegmentFare;
+}
+
+/**
+ * Bags included in a fare
+ */
+export interface BaggageAllowance {
+  quantity?: number; // Pieces
+  weightKg?: number; // When the allowance is by weight
+}
+
+export interface FareAmenity {
+  description: string;
+  type?: string; // As the provider reports it, e.g. BAGGAGE, MEAL, BRANDED_FARES
+  chargeable: boolean;
+}
+
+/**
+ * Fare rules for one segment
+ */
+export interface SegmentFare {
+  fareBasis?: string;
+  brand?: string; // Branded fare, e.g. 'ECONOMY LIGHT'
+  bookingClass?: string; // Booking (RBD) class, e.g. 'Q'
+  checkedBags?: BaggageAllowance;
+  cabinBags?: BaggageAllowance;
+  amenities?: FareAmenity[];
+}
+
+/**
+ * Fare conditions for a whole flight
+ * Fields are left out when the provider doesn't say
+ */
+export interface FareDetails {
+  brand?: string; // Branded fare of the first segment
+  checkedBags?: BaggageAllowance; // The smallest allowance across segments
+  cabinBags?: BaggageAllowance;
+  checkedBagPrice?: { amount: number; currency: string }; // First checked bag, when sold separately
+  refundable?: boolean;
+  changeable?: boolean;
 }
 
 export interface FlightItinerary {
   direction: 'outbound' | 'inbound';
+  legIndex?: number; // Position of the leg in a multi-city search (0-based)
   duration: number;
   segments: FlightSegmentDetail[];
   stops: number;
@@ -60,10 +173,33 @@ export interface StopDetail {
   duration: number; // In minutes
 }
 
+export type RankingProfile = 'best' | 'cheapest' | 'fastest' | 'fewest-stops' | 'comfort';
+
+export type ScoreComponentName = 'price' | 'duration' | 'stops' | 'redEye' | 'connections' | 'airportDistance';
+
+/**
+ * Relative weight per score component; normalized to sum to 1 when ranking
+ */
+export type RankingWeights = Partial<Record<ScoreComponentName, number>>;
+
+/**
+ * How to rank a result set; weights override the profile's defaults
+ */
+export interface RankingOptions {
+  profile?: RankingProfile;
+  weights?: RankingWeights;
+  priceBasis?: PriceBasis; // Defaults to 'total'
+}
+
+export interface ScoreComponent {
+  name: ScoreComponentName;
+  score: number; // 0-100
+  weight: number; // Normalized weight applied to the score
+}
+
 export interface ScoreBreakdown {
-  priceScore: number;
-  durationScore: number;
-  stopsScore: number;
+  profile: RankingProfile;
+  components: ScoreComponent[];
   totalScore: number;
 }
 
@@ -94,6 +230,8 @@ export interface FlightSearchParams {
   to: string; // IATA airport code
   departDate: string; // YYYY-MM-DD
   returnDate?: string; // YYYY-MM-DD (for round-trip)
+  returnFrom?: string; // Open-jaw round trips: where the inbound leg departs (defaults to `to`)
+  returnTo?: string; // Open-jaw round trips: where the inbound leg arrives (defaults to `from`)
 
   // Passenger info
   passengers?: number; // Legacy: total passengers (deprecated, use passengerBreakdown)
@@ -105,15 +243,22 @@ export interface FlightSearchParams {
 
   // Preferences
   cabin?: 'economy' | 'business' | 'first' | 'premium-economy';
-  maxPrice?: number;
+  currency?: string; // ISO 4217; prices are converted to it (defaults to DEFAULT_CURRENCY)
+  maxPrice?: number; // In the requested currency, on priceBasis
+  priceBasis?: PriceBasis; // For maxPrice and ranking (defaults to 'total')
+  checkedBags?: number; // Bags per passenger for the 'with-bags' basis (defaults to 1)
   airlines?: string[]; // Filter by specific airlines
+  ranking?: RankingOptions; // Defaults to the 'best' profile
   includeProviders?: string[]; // Which providers to query
+  includeNearbyAirports?: boolean; // Also search airports within nearbyRadiusKm of origin and destination
+  nearbyRadiusKm?: number; // Defaults to NEARBY_AIRPORTS_RADIUS_KM
 }
 
 /**
  * Aggregated search results
  */
 export interface FlightSearchResult {
+  searchId?: string; // Session id for server-side paging (GET /api/flights/search/:searchId)
   status: 'success' | 'partial' | 'error';
   query: FlightSearchParams;
   flights: NormalizedFlight[];
@@ -121,6 +266,21 @@ export interface FlightSearchResult {
   providersQueried: ProviderStatus[];
   timestamp: string;
   cacheHit: boolean;
+  stale?: boolean; // Served from cache past its TTL while a refresh runs in the background
+  priceInsight?: PriceInsight; // Only when there is enough history for the route
+  facets?: FlightFacets;
+  nearbyAirports?: NearbyAirportsSummary; // Only on nearby-airport searches
+}
+
+/**
+ * How the cheapest fare compares with past searches for the same trip
+ */
+export interface PriceInsight {
+  level: 'low' | 'typical' | 'high';
+  cheapestPrice: number;
+  typicalRange: { low: number; high: number }; // 25th-75th percentile of past cheapest fares
+  currency: string;
+  sampleSize: number; // Past searches compared against
 }
 
 /**
@@ -128,8 +288,378 @@ export interface FlightSearchResult {
  */
 export interface ProviderStatus {
   name: string;
-  status: 'success' | 'error' | 'timeout';
+  status: 'success' | 'error' | 'timeout' | 'circuit-open';
   resultsCount: number;
   error?: string;
   responseTime: number; // In milliseconds
+  cached?: boolean; // Results came from this provider's cache
+}
+
+/**
+ * Cheapest fare for one date (or depart/return pair) in a flexible search
+ */
+export interface FlexibleDateCell {
+  departDate: string; // YYYY-MM-DD
+  returnDate?: string; // YYYY-MM-DD for round-trip
+  cheapestPrice: number | null; // null when no flights were found
+  currency?: string;
+  resultsCount: number;
+  cacheHit: boolean;
+  status: 'success' | 'partial' | 'error';
+}
+
+/**
+ * Flexible-date search results
+ * `result` is the full search for the requested dates, `cells` holds the
+ * depart × return price matrix (one cell per departure date for one-way)
+ * Date pairs beyond FLEXIBLE_SEARCH_MAX_SEARCHES have no cell; skippedSearches counts them
+ */
+export interface FlexibleSearchResult {
+  query: FlightSearchParams;
+  flexibleDays: number;
+  result: FlightSearchResult;
+  departDates: string[];
+  returnDates?: string[];
+  cells: FlexibleDateCell[];
+  cheapest: FlexibleDateCell | null;
+  skippedSearches: number;
+  timestamp: string;
+}
+
+/**
+ * Request for a provider's cheapest-dates lookup
+ * Cheapest-dates APIs price a single adult
+ */
+export interface CheapestDatesRequest {
+  from: string; // IATA code
+  to: string; // IATA code
+  startDate: string; // YYYY-MM-DD (inclusive)
+  endDate: string; // YYYY-MM-DD (inclusive)
+  currency?: string; // ISO 4217
+}
+
+/**
+ * Cheapest fare a provider knows for a departure date
+ */
+export interface CheapestDateFare {
+  date: string; // YYYY-MM-DD
+  price: number;
+  currency: string;
+  provider: string;
+}
+
+/**
+ * One day in the price calendar
+ */
+export interface PriceCalendarDay {
+  date: string; // YYYY-MM-DD
+  price: number | null; // null when no price is known
+  currency?: string;
+  source: 'cache' | 'provider' | null; // cached search results or a provider's cheapest-dates API
+  provider?: string; // Provider that supplied a cheapest-dates price
+}
+
+/**
+ * Month-view cheapest-fare calendar for a route
+ */
+export interface PriceCalendar {
+  from: string;
+  to: string;
+  month: string; // YYYY-MM
+  days: PriceCalendarDay[];
+  cheapest: PriceCalendarDay | null;
+  timestamp: string;
+}
+
+/**
+ * One page of a stored search session after filtering and sorting
+ */
+export interface FlightSearchPage {
+  searchId: string;
+  query: FlightSearchParams;
+  status: 'success' | 'partial' | 'error';
+  flights: NormalizedFlight[];
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  totalResults: number; // After filtering
+  unfilteredResults: number;
+  facets: FlightFacets; // For the filtered results
+  providersQueried: ProviderStatus[];
+  timestamp: string; // When the search ran
+}
+
+/**
+ * Incremental update sent when one provider resolves during a streamed search
+ */
+export interface ProviderSearchUpdate {
+  provider: ProviderStatus;
+  flights: NormalizedFlight[]; // Flights that are new or gained offers, ranked against everything so far
+  removedIds: string[]; // Previously sent flights that were merged into one in `flights`
+  totalResults: number; // Merged results so far
+}
+
+/**
+ * Server-Sent Events emitted by GET /api/flights/search/stream
+ */
+export type SearchStreamEvent =
+  | { type: 'provider'; data: ProviderSearchUpdate }
+  | { type: 'complete'; data: FlightSearchResult }
+  | { type: 'error'; data: { message: string } };
+
+/**
+ * Continent code of an airport, also used to scope providers to regions
+ */
+export type Region = 'AF' | 'AN' | 'AS' | 'EU' | 'NA' | 'OC' | 'SA';
+
+/**
+ * Provider listing with runtime state (GET /api/flights/providers)
+ */
+export interface ProviderInfo {
+  name: string;
+  enabled: boolean;
+  configured: boolean; // Has the credentials it needs
+  priority: number;
+  regions: Region[]; // Empty means every region
+  timeoutMs: number;
+  cacheTtlSeconds: number;
+  circuitState: 'closed' | 'open' | 'half-open';
+  lastHealthCheck: {
+    healthy: boolean;
+    checkedAt: string; // ISO 8601
+    error?: string;
+  } | null;
+}
+
+/**
+ * Airport reference data
+ */
+export interface Airport {
+  iata: string;
+  icao: string;
+  name: string;
+  city: string;
+  country: string; // ISO 3166-1 alpha-2
+  continent: Region;
+  lat: number;
+  lon: number;
+  timezone: string; // IANA timezone
+  metro?: string; // Metro (city) code this airport belongs to, e.g. LON
+}
+
+/**
+ * Metro area grouping several airports under one city code (LON, NYC)
+ */
+export interface MetroArea {
+  code: string;
+  name: string;
+  city: string;
+  country: string;
+  airports: string[]; // Member airport IATA codes
+}
+
+/**
+ * An airport near a requested airport or metro code
+ */
+export interface NearbyAirport {
+  code: string;
+  name: string;
+  city: string;
+  distanceKm: number; // From the closest requested airport
+}
+
+/**
+ * Which nearby airports a nearby-airport search covered
+ * At most NEARBY_AIRPORTS_MAX_SEARCHES airport pairs are searched, closest first
+ */
+export interface NearbyAirportsSummary {
+  origin: NearbyAirport[]; // Extra airports searched
+  destination: NearbyAirport[];
+  skipped: { origin: NearbyAirport[]; destination: NearbyAirport[] }; // In range but in none of the searched pairs
+  skippedSearches: number; // Airport pairs left out by the cap
+}
+
+/**
+ * Airport autocomplete match
+ */
+export interface AirportSearchMatch {
+  type: 'airport' | 'metro';
+  code: string;
+  name: string;
+  city: string;
+  country: string;
+  airports?: string[]; // Member airports for metro matches
+  score: number;
+}
+
+export type AirlineAlliance = 'Star Alliance' | 'oneworld' | 'SkyTeam';
+
+/**
+ * Airline reference data
+ */
+export interface Airline {
+  iata: string;
+  icao: string;
+  name: string;
+  alliance: AirlineAlliance | null;
+  country: string; // ISO 3166-1 alpha-2
+  logoUrl: string;
+}
+
+/**
+ * Price summary for one provider in a recorded search
+ */
+export interface ProviderPriceSummary {
+  provider: string;
+  minPrice: number;
+  medianPrice: number;
+  resultsCount: number;
+}
+
+/**
+ * One recorded search in a route's price history
+ */
+export interface PriceHistoryPoint {
+  recordedAt: string; // ISO 8601
+  departDate: string;
+  returnDate?: string;
+  minPrice: number;
+  medianPrice: number;
+  providers: ProviderPriceSummary[];
+}
+
+/**
+ * Price curve for a route (GET /api/routes/:from/:to/history)
+ */
+export interface PriceHistory {
+  from: string;
+  to: string;
+  departDate?: string;
+  returnDate?: string;
+  tripType: 'one-way' | 'round-trip';
+  cabin?: 'economy' | 'business' | 'first' | 'premium-economy';
+  passengers: number; // Prices are totals for this many passengers
+  currency: string;
+  points: PriceHistoryPoint[]; // Oldest first
+  timestamp: string;
+}
+
+/**
+ * Server-side flight filters
+ * Per-itinerary filters apply to every leg of round-trip and multi-city
+ * results; time windows are HH:MM local and may wrap midnight (22:00-06:00)
+ */
+export interface FlightFilterCriteria {
+  maxPrice?: number;
+  priceBasis?: PriceBasis; // What maxPrice and the price facet compare (defaults to 'total')
+  maxStops?: number; // Per itinerary
+  maxDuration?: number; // In minutes, per itinerary
+
+  airlines?: string[]; // Every segment carrier must be one of these
+  excludeAirlines?: string[]; // No segment carrier may be one of these
+  alliances?: AirlineAlliance[]; // Every segment carrier must belong to one of these
+  cabins?: CabinClass[]; // Every segment must be in one of these
+
+  outboundDepartAfter?: string;
+  outboundDepartBefore?: string;
+  outboundArriveAfter?: string;
+  outboundArriveBefore?: string;
+  inboundDepartAfter?: string;
+  inboundDepartBefore?: string;
+  inboundArriveAfter?: string;
+  inboundArriveBefore?: string;
+
+  minLayover?: number; // In minutes, every connection
+  maxLayover?: number; // In minutes, every connection
+  excludeConnectionAirports?: string[]; // Never connect through these
+  connectionAirports?: string[]; // Connect through at least one of these (non-stop flights don't match)
+  noOvernightLayovers?: boolean;
+  noAirportChanges?: boolean; // e.g. landing at LGW and leaving from LHR
+  noRedEyes?: boolean;
+
+  // Flights whose fare doesn't say are excluded
+  checkedBagIncluded?: boolean;
+  refundable?: boolean;
+  changeable?: boolean;
+}
+
+export type CabinClass = 'economy' | 'premium-economy' | 'business' | 'first';
+
+/**
+ * Count and cheapest price for one facet value
+ */
+export interface FacetBucket {
+  value: string;
+  label?: string;
+  count: number;
+  minPrice: number;
+}
+
+/**
+ * Flights per local hour of day (24 entries, hour 0-23)
+ */
+export interface TimeOfDayHistogram {
+  departure: { hour: number; count: number }[];
+  arrival: { hour: number; count: number }[];
+}
+
+/**
+ * Aggregations for the filter sidebar
+ * With filters applied each facet reflects every filter except its own,
+ * so selecting an airline doesn't hide the other airlines
+ */
+export interface FlightFacets {
+  airlines: FacetBucket[]; // Every segment carrier
+  stops: FacetBucket[]; // '0', '1', '2+' (most stops on any itinerary)
+  times: {
+    outbound: TimeOfDayHistogram;
+    inbound?: TimeOfDayHistogram; // Round-trip only
+  };
+  price: { min: number; max: number } | null;
+  duration: { min: number; max: number } | null; // Longest itinerary, in minutes
+  connectionAirports: FacetBucket[];
+  providers: FacetBucket[]; // From merged offers
+}
+
+/**
+ * Cache counters since startup (GET /api/admin/cache)
+ */
+export interface CacheStats {
+  enabled: boolean;
+  hits: number; // Fresh values served
+  misses: number;
+  stale: number; // Expired values served while being refreshed
+  hitRate: number; // (hits + stale) / lookups, 0-1
+  memory: { entries: number; sizeBytes: number; maxSizeBytes: number; hits: number };
+  redis: { connected: boolean; hits: number };
+}
+
+/**
+ * An offer's current price from the provider (IFlightProvider.confirmPrice)
+ * In the provider's currency
+ */
+export interface ProviderPriceQuote {
+  price: number;
+  currency: string;
+  seatsLeft?: number;
+  lastTicketingDate?: string; // YYYY-MM-DD
+}
+
+/**
+ * Result of re-pricing an offer from a search (POST /api/flights/offers/:id/confirm)
+ */
+export interface OfferPriceConfirmation {
+  searchId: string;
+  offerId: string;
+  provider: string;
+  price: number; // Current price, in the search currency
+  currency: string;
+  originalPrice: number; // As quoted by the provider
+  originalCurrency: string;
+  searchPrice: number; // What the search showed
+  priceChanged: boolean;
+  priceDifference: number; // price - searchPrice
+  seatsLeft?: number;
+  lastTicketingDate?: string; // YYYY-MM-DD
+  confirmedAt: string; // ISO 8601
 }
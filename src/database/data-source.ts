@@ -0,0 +1,15 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import { join } from 'path';
+import { DataSource } from 'typeorm';
+import { buildDatabaseOptions } from './database.config';
+
+/**
+ * DataSource for the TypeORM CLI (npm run migration:run / migration:generate)
+ * The app itself loads entities through TypeOrmModule.forFeature
+ */
+export default new DataSource({
+  ...buildDatabaseOptions(),
+  entities: [join(__dirname, '..', '**', '*.entity.{js,ts}')],
+});
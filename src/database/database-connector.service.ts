@@ -0,0 +1,39 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+/**
+ * Database Connector
+ * Opens the Postgres connection after startup and keeps retrying until it
+ * succeeds; pending migrations run as part of connecting
+ * Until then, database-backed features report themselves unavailable
+ */
+@Injectable()
+export class DatabaseConnector implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly retryDelayMs = parseInt(process.env.DATABASE_RETRY_DELAY_MS || '30000');
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(private dataSource: DataSource) {}
+
+  onApplicationBootstrap(): void {
+    this.connect();
+  }
+
+  onModuleDestroy(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async connect(): Promise<void> {
+    this.retryTimer = null;
+
+    try {
+      await this.dataSource.initialize();
+      console.log('[DATABASE] Connected');
+    } catch (error) {
+      console.error(`[DATABASE] Connection failed, retrying in ${this.retryDelayMs}ms:`, (error as Error).message);
+      this.retryTimer = setTimeout(() => this.connect(), this.retryDelayMs);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { CanActivate, Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+/**
+ * Database Ready Guard
+ * Answers 503 on database-backed routes while Postgres is unreachable
+ */
+@Injectable()
+export class DatabaseReadyGuard implements CanActivate {
+  constructor(private dataSource: DataSource) {}
+
+  canActivate(): boolean {
+    if (!this.dataSource.isInitialized) {
+      throw new ServiceUnavailableException('Database is not available');
+    }
+
+    return true;
+  }
+}
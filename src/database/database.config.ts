@@ -0,0 +1,22 @@
+import { join } from 'path';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+
+/**
+ * Postgres connection options from DATABASE_* env vars
+ * Shared by the app and the TypeORM CLI (data-source.ts)
+ */
+export function buildDatabaseOptions(): PostgresConnectionOptions {
+  return {
+    type: 'postgres',
+    url: process.env.DATABASE_URL,
+    host: process.env.DATABASE_HOST || 'localhost',
+    port: parseInt(process.env.DATABASE_PORT || '5432'),
+    username: process.env.DATABASE_USER,
+    password: process.env.DATABASE_PASSWORD,
+    database: process.env.DATABASE_NAME || 'findmyflight',
+    ssl: process.env.DATABASE_SSL === 'true' ? { rejectUnauthorized: false } : undefined,
+    migrations: [join(__dirname, 'migrations', '*.{js,ts}')],
+    // Only for local development; production schema changes go through migrations
+    synchronize: process.env.DATABASE_SYNCHRONIZE === 'true',
+  };
+}
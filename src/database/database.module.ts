@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { buildDatabaseOptions } from './database.config';
+import { DatabaseConnector } from './database-connector.service';
+
+/**
+ * Database Module
+ * Postgres connection shared by every feature that persists data
+ * Feature modules register their own entities with TypeOrmModule.forFeature
+ * The connection is opened in the background (see DatabaseConnector) so the
+ * search API still starts when Postgres is unreachable
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forRootAsync({
+      useFactory: () => ({
+        ...buildDatabaseOptions(),
+        autoLoadEntities: true,
+        migrationsRun: process.env.DATABASE_MIGRATIONS_RUN !== 'false',
+        manualInitialization: true,
+      }),
+    }),
+  ],
+  providers: [DatabaseConnector],
+})
+export class DatabaseModule {}
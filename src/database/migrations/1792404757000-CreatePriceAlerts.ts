@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Tables for price alerts and their check history
+ */
+export class CreatePriceAlerts1792404757000 implements MigrationInterface {
+  name = 'CreatePriceAlerts1792404757000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+    await queryRunner.query(
+      `CREATE TABLE "price_alerts" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "origin" character varying(3) NOT NULL, "destination" character varying(3) NOT NULL, "departDate" date NOT NULL, "returnDate" date, "tripType" character varying(16) NOT NULL, "adults" integer NOT NULL DEFAULT '1', "children" integer NOT NULL DEFAULT '0', "infants" integer NOT NULL DEFAULT '0', "cabin" character varying(16), "targetPrice" numeric(10,2) NOT NULL, "dropPercent" numeric(5,2), "notifyType" character varying(16) NOT NULL, "notifyTarget" character varying(2048) NOT NULL, "manageTokenHash" character varying(64) NOT NULL, "status" character varying(16) NOT NULL DEFAULT 'active', "baselinePrice" numeric(10,2), "lastPrice" numeric(10,2), "lowestPrice" numeric(10,2), "currency" character varying(3), "lastCheckedAt" TIMESTAMP WITH TIME ZONE, "lastNotifiedPrice" numeric(10,2), "lastNotifiedAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_125caf0cfa6219ed3ea03646608" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_f97dcc6e8c6d13e6462eedf652" ON "price_alerts" ("status") `);
+    await queryRunner.query(
+      `CREATE TABLE "price_alert_checks" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "alertId" uuid NOT NULL, "bestPrice" numeric(10,2), "currency" character varying(3), "resultsCount" integer NOT NULL DEFAULT '0', "notified" boolean NOT NULL DEFAULT false, "checkedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_218f5170d885d8f15cc7288fb0e" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_3d8d5882b8a525be2c6bc77c05" ON "price_alert_checks" ("alertId") `);
+    await queryRunner.query(
+      `ALTER TABLE "price_alert_checks" ADD CONSTRAINT "FK_3d8d5882b8a525be2c6bc77c05e" FOREIGN KEY ("alertId") REFERENCES "price_alerts"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "price_alert_checks" DROP CONSTRAINT "FK_3d8d5882b8a525be2c6bc77c05e"`);
+    await queryRunner.query(`DROP TABLE "price_alert_checks"`);
+    await queryRunner.query(`DROP TABLE "price_alerts"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Search price summaries for route price history
+ */
+export class CreatePriceSnapshots1792404812000 implements MigrationInterface {
+  name = 'CreatePriceSnapshots1792404812000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+    await queryRunner.query(
+      `CREATE TABLE "price_snapshots" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "origin" character varying(3) NOT NULL, "destination" character varying(3) NOT NULL, "departDate" date NOT NULL, "returnDate" date, "tripType" character varying(16) NOT NULL, "cabin" character varying(16), "passengers" integer NOT NULL, "currency" character varying(3) NOT NULL, "minPrice" numeric(10,2) NOT NULL, "medianPrice" numeric(10,2) NOT NULL, "providers" jsonb NOT NULL, "resultsCount" integer NOT NULL, "recordedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_506dbfba578050df342b613daec" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_81b001f6f4cb01b613017dfcd3" ON "price_snapshots" ("recordedAt") `);
+    await queryRunner.query(`CREATE INDEX "IDX_32d2920272abe7f8b365fa814e" ON "price_snapshots" ("origin", "destination", "departDate") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "price_snapshots"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Booking redirect clicks for affiliate reporting
+ */
+export class CreateBookingClicks1792404869000 implements MigrationInterface {
+  name = 'CreateBookingClicks1792404869000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "booking_clicks" ("id" uuid NOT NULL, "searchId" uuid NOT NULL, "offerId" character varying(128) NOT NULL, "provider" character varying(32) NOT NULL, "partner" character varying(32) NOT NULL, "origin" character varying(3) NOT NULL, "destination" character varying(3) NOT NULL, "departDate" date NOT NULL, "price" numeric(10,2) NOT NULL, "currency" character varying(3) NOT NULL, "redirectUrl" text NOT NULL, "clickedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_f888e731717082b7cd86b380e4b" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_210633c23736191da3a18e897a" ON "booking_clicks" ("searchId") `);
+    await queryRunner.query(`CREATE INDEX "IDX_24af7dc11d000e72415ba78261" ON "booking_clicks" ("clickedAt") `);
+    await queryRunner.query(`CREATE INDEX "IDX_9cbede6029810364da2e2d91e9" ON "booking_clicks" ("partner", "clickedAt") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "booking_clicks"`);
+  }
+}
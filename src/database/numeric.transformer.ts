@@ -0,0 +1,10 @@
+import { ValueTransformer } from 'typeorm';
+
+/**
+ * Postgres returns numeric/decimal columns as strings to avoid precision loss
+ * Prices fit comfortably in a JS number, so convert them back
+ */
+export const numericTransformer: ValueTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) => (value === null || value === undefined ? null : parseFloat(value)),
+};
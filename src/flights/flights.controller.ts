@@ -1,7 +1,48 @@
-import { Controller, Post, Get, Body, Query, BadRequestException, HttpCode } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Sse,
+  Body,
+  Query,
+  Param,
+  BadRequestException,
+  NotFoundException,
+  HttpCode,
+  ParseUUIDPipe,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { FlightAggregatorService } from '../aggregator/flight-aggregator.service';
-import { FlightSearchDto, FlightFilterDto } from '../common/dto';
-import { FlightSearchParams, FlightSearchResult } from '../common/types';
+import { FlexibleSearchService } from '../aggregator/flexible-search.service';
+import { PriceCalendarService } from '../aggregator/price-calendar.service';
+import { SearchSessionService } from '../aggregator/search-session.service';
+import { OfferPricingService } from '../aggregator/offer-pricing.service';
+import { ProviderRegistry } from '../providers/provider.registry';
+import {
+  ConfirmOfferDto,
+  FilterFlightsDto,
+  FlightSearchDto,
+  FlightFilterDto,
+  FlexibleSearchDto,
+  PriceCalendarQueryDto,
+  SearchSessionQueryDto,
+} from '../common/dto';
+import {
+  FlexibleSearchResult,
+  FlightFacets,
+  FlightSearchPage,
+  FlightSearchParams,
+  FlightSearchResult,
+  NormalizedFlight,
+  OfferPriceConfirmation,
+  PriceBasis,
+  PriceCalendar,
+  ProviderInfo,
+  RankingOptions,
+  RankingProfile,
+  RankingWeights,
+} from '../common/types';
 import { rankingEngine } from '../ranking/ranking.engine';
 
 /**
@@ -10,7 +51,14 @@ import { rankingEngine } from '../ranking/ranking.engine';
  */
 @Controller('api/flights')
 export class FlightSearchController {
-  constructor(private flightAggregatorService: FlightAggregatorService) {}
+  constructor(
+    private flightAggregatorService: FlightAggregatorService,
+    private flexibleSearchService: FlexibleSearchService,
+    private priceCalendarService: PriceCalendarService,
+    private searchSessionService: SearchSessionService,
+    private offerPricingService: OfferPricingService,
+    private providerRegistry: ProviderRegistry,
+  ) {}
 
   /**
    * POST /api/flights/search
@@ -19,47 +67,97 @@ export class FlightSearchController {
   @Post('search')
   @HttpCode(200)
   async searchFlights(@Body() searchDto: FlightSearchDto): Promise<FlightSearchResult> {
-    // Validate DTO
-    const params: FlightSearchParams = {
-      from: searchDto.from.toUpperCase(),
-      to: searchDto.to.toUpperCase(),
-      departDate: searchDto.departDate,
-      returnDate: searchDto.returnDate,
-      passengers: searchDto.passengers,
-      passengerBreakdown: searchDto.adults ? {
-        adults: searchDto.adults,
-        children: searchDto.children || 0,
-        infants: searchDto.infants || 0,
-      } : undefined,
-      tripType: searchDto.tripType,
-      cabin: searchDto.cabin,
-      maxPrice: searchDto.maxPrice,
-      includeProviders: searchDto.includeProviders,
-    };
+    const params = this.toValidatedParams(searchDto);
 
-    // Validate search parameters
-    const validation = this.flightAggregatorService.validateSearchParams(params);
-    if (!validation.valid) {
+    // Perform search
+    return this.flightAggregatorService.searchFlights(params);
+  }
+
+  /**
+   * POST /api/flights/search/flexible
+   * Search ±flexibleDays around the requested dates and return a price matrix
+   */
+  @Post('search/flexible')
+  @HttpCode(200)
+  async searchFlexible(@Body() searchDto: FlexibleSearchDto): Promise<FlexibleSearchResult> {
+    const params = this.toValidatedParams(searchDto);
+
+    if (params.tripType === 'multi-city') {
       throw new BadRequestException({
         message: 'Invalid search parameters',
-        errors: validation.errors,
+        errors: ['Flexible dates are not supported for multi-city searches'],
       });
     }
 
-    // Perform search
-    return this.flightAggregatorService.searchFlights(params);
+    return this.flexibleSearchService.searchFlexible(params, searchDto.flexibleDays);
+  }
+
+  /**
+   * GET /api/flights/search/stream?from=LHR&to=JFK&departDate=...
+   * Stream results over Server-Sent Events as each provider resolves
+   * Declared before search/:searchId so "stream" isn't taken for an id
+   */
+  @Sse('search/stream')
+  streamSearch(@Query() searchDto: FlightSearchDto): Observable<MessageEvent> {
+    const params = this.toValidatedParams(searchDto);
+    return this.flightAggregatorService.streamSearch(params);
+  }
+
+  /**
+   * GET /api/flights/search/:searchId?page=&pageSize=&sortBy=&maxStops=...
+   * Filter, sort and paginate the results of an earlier search
+   */
+  @Get('search/:searchId')
+  async getSearchPage(
+    @Param('searchId', ParseUUIDPipe) searchId: string,
+    @Query() query: SearchSessionQueryDto,
+  ): Promise<FlightSearchPage> {
+    const { page, pageSize, ...filters } = query;
+    const result = await this.searchSessionService.getPage(searchId, filters, page, pageSize);
+
+    if (!result) {
+      throw new NotFoundException(`Search ${searchId} not found or expired`);
+    }
+
+    return result;
+  }
+
+  /**
+   * POST /api/flights/offers/:id/confirm
+   * Re-price an offer from a search with its provider before booking
+   */
+  @Post('offers/:id/confirm')
+  @HttpCode(200)
+  confirmOfferPrice(@Param('id') offerId: string, @Body() dto: ConfirmOfferDto): Promise<OfferPriceConfirmation> {
+    return this.offerPricingService.confirmPrice(dto.searchId, offerId);
+  }
+
+  /**
+   * GET /api/flights/calendar?from=LHR&to=JFK&month=2026-12
+   * Cheapest known one-way fare per day for a route
+   * Days nobody has searched yet are only filled in for a single passenger
+   */
+  @Get('calendar')
+  getPriceCalendar(@Query() query: PriceCalendarQueryDto): Promise<PriceCalendar> {
+    return this.priceCalendarService.getCalendar(
+      query.from.toUpperCase(),
+      query.to.toUpperCase(),
+      query.month,
+      query.passengers,
+      query.currency,
+    );
   }
 
   /**
    * GET /api/flights/providers
-   * Get list of available providers
+   * Get registered providers with their enabled state and last health check
    */
   @Get('providers')
   getProviders(): {
-    providers: string[];
+    providers: ProviderInfo[];
     count: number;
   } {
-    const providers = this.flightAggregatorService.getProviders();
+    const providers = this.providerRegistry.getProviderInfo();
     return {
       providers,
       count: providers.length,
@@ -70,66 +168,43 @@ export class FlightSearchController {
    * POST /api/flights/search/filter
    * Apply filters to existing search results
    * This is clientside, but can also be done server-side for consistency
+   * Prefer GET /api/flights/search/:searchId, which doesn't need the flights posted back
    */
   @Post('filter')
   @HttpCode(200)
   filterFlights(
-    @Body() body: { flights: any[]; filters: FlightFilterDto },
+    @Body() body: FilterFlightsDto,
   ): {
-    flights: any[];
-    appliedFilters: FlightFilterDto;
+    flights: NormalizedFlight[];
+    appliedFilters?: FlightFilterDto;
+    facets: FlightFacets;
     count: number;
   } {
     let filtered = [...body.flights];
 
+    // Re-rank first so sortBy=score and the default order reflect the requested profile
+    const ranking = body.filters ? this.toRankingOptions(body.filters) : undefined;
+    if (ranking) {
+      filtered = rankingEngine.rankFlights(filtered, ranking);
+    }
+
+    // Facets are computed before filtering so each one can ignore its own filter
+    const facets = rankingEngine.getFacets(filtered, body.filters);
+
     // Apply filters
     if (body.filters) {
-      filtered = rankingEngine.filterFlights(filtered, {
-        maxPrice: body.filters.maxPrice,
-        maxStops: body.filters.maxStops,
-        maxDuration: body.filters.maxDuration,
-        airlines: body.filters.airlines,
-      });
+      filtered = rankingEngine.filterFlights(filtered, body.filters);
     }
 
     // Apply sorting
     if (body.filters?.sortBy) {
-      const sortOrder = body.filters.sortOrder === 'asc' ? 1 : -1;
-
-      filtered.sort((a, b) => {
-        let aVal: any;
-        let bVal: any;
-
-        switch (body.filters.sortBy) {
-          case 'price':
-            aVal = a.price;
-            bVal = b.price;
-            break;
-          case 'duration':
-            aVal = a.duration;
-            bVal = b.duration;
-            break;
-          case 'stops':
-            aVal = a.stops;
-            bVal = b.stops;
-            break;
-          case 'score':
-            aVal = a.rankingScore || 0;
-            bVal = b.rankingScore || 0;
-            break;
-          default:
-            return 0;
-        }
-
-        if (aVal < bVal) return -1 * sortOrder;
-        if (aVal > bVal) return 1 * sortOrder;
-        return 0;
-      });
+      filtered = rankingEngine.sortFlights(filtered, body.filters.sortBy, body.filters.sortOrder, body.filters.priceBasis);
     }
 
     return {
       flights: filtered,
       appliedFilters: body.filters,
+      facets,
       count: filtered.length,
     };
   }
@@ -145,4 +220,76 @@ export class FlightSearchController {
       timestamp: new Date().toISOString(),
     };
   }
+
+  /**
+   * Ranking options from a search or filter DTO, if any were given
+   */
+  private toRankingOptions(dto: {
+    rankingProfile?: RankingProfile;
+    rankingWeights?: RankingWeights;
+    priceBasis?: PriceBasis;
+  }): RankingOptions | undefined {
+    if (!dto.rankingProfile && !dto.rankingWeights && !dto.priceBasis) {
+      return undefined;
+    }
+
+    return {
+      profile: dto.rankingProfile,
+      weights: dto.rankingWeights,
+      priceBasis: dto.priceBasis,
+    };
+  }
+
+  /**
+   * Map a search DTO to search params and validate them
+   */
+  private toValidatedParams(searchDto: FlightSearchDto): FlightSearchParams {
+    // Multi-city searches take their route from the first and last legs
+    const segments = searchDto.tripType === 'multi-city'
+      ? searchDto.segments?.map((segment) => ({
+          from: segment.from.toUpperCase(),
+          to: segment.to.toUpperCase(),
+          departDate: segment.departDate,
+        }))
+      : undefined;
+    const firstLeg = segments?.[0];
+    const lastLeg = segments?.[segments.length - 1];
+
+    const params: FlightSearchParams = {
+      from: (firstLeg?.from ?? searchDto.from ?? '').toUpperCase(),
+      to: (lastLeg?.to ?? searchDto.to ?? '').toUpperCase(),
+      departDate: firstLeg?.departDate ?? searchDto.departDate,
+      returnDate: searchDto.returnDate,
+      returnFrom: searchDto.returnFrom?.toUpperCase(),
+      returnTo: searchDto.returnTo?.toUpperCase(),
+      passengers: searchDto.passengers,
+      passengerBreakdown: searchDto.adults ? {
+        adults: searchDto.adults,
+        children: searchDto.children || 0,
+        infants: searchDto.infants || 0,
+      } : undefined,
+      tripType: searchDto.tripType,
+      segments,
+      cabin: searchDto.cabin,
+      currency: searchDto.currency,
+      maxPrice: searchDto.maxPrice,
+      priceBasis: searchDto.priceBasis,
+      checkedBags: searchDto.checkedBags,
+      includeNearbyAirports: searchDto.includeNearbyAirports,
+      nearbyRadiusKm: searchDto.nearbyRadiusKm,
+      includeProviders: searchDto.includeProviders,
+      ranking: this.toRankingOptions(searchDto),
+    };
+
+    // Validate search parameters
+    const validation = this.flightAggregatorService.validateSearchParams(params);
+    if (!validation.valid) {
+      throw new BadRequestException({
+        message: 'Invalid search parameters',
+        errors: validation.errors,
+      });
+    }
+
+    return params;
+  }
 }
@@ -1,11 +1,26 @@
 import { Module } from '@nestjs/common';
 import { FlightSearchController } from './flights.controller';
 import { FlightAggregatorService } from '../aggregator/flight-aggregator.service';
-import { CacheService } from '../cache/cache.service';
+import { FlexibleSearchService } from '../aggregator/flexible-search.service';
+import { PriceCalendarService } from '../aggregator/price-calendar.service';
+import { SearchSessionService } from '../aggregator/search-session.service';
+import { OfferPricingService } from '../aggregator/offer-pricing.service';
+import { CacheModule } from '../cache/cache.module';
+import { ProvidersModule } from '../providers/providers.module';
+import { AirportsModule } from '../airports/airports.module';
+import { FxModule } from '../fx/fx.module';
+import { PriceHistoryModule } from '../price-history/price-history.module';
 
 @Module({
+  imports: [CacheModule, ProvidersModule, AirportsModule, FxModule, PriceHistoryModule],
   controllers: [FlightSearchController],
-  providers: [FlightAggregatorService, CacheService],
-  exports: [FlightAggregatorService, CacheService],
+  providers: [
+    FlightAggregatorService,
+    FlexibleSearchService,
+    PriceCalendarService,
+    SearchSessionService,
+    OfferPricingService,
+  ],
+  exports: [FlightAggregatorService, SearchSessionService],
 })
 export class FlightsModule {}
@@ -0,0 +1,26 @@
+/**
+ * Exchange rates relative to a base currency
+ * `rates[X]` is how many units of X one unit of `base` buys
+ */
+export interface FxRates {
+  base: string; // ISO 4217
+  rates: Record<string, number>;
+  asOf: string; // When the rates were published
+}
+
+/**
+ * Interface that all exchange rate sources must implement
+ */
+export interface IFxRateSource {
+  name: string;
+
+  /**
+   * Load the latest rates
+   */
+  fetchRates(): Promise<FxRates>;
+}
+
+/**
+ * Injection token for the configured rate source
+ */
+export const FX_RATE_SOURCE = 'FX_RATE_SOURCE';
@@ -0,0 +1,9 @@
+/**
+ * Thrown when no exchange rate is known for a currency pair
+ */
+export class FxRateUnavailableError extends Error {
+  constructor(from: string, to: string) {
+    super(`No exchange rate available for ${from} -> ${to}`);
+    this.name = 'FxRateUnavailableError';
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { FxService } from './fx.service';
+import { FX_RATE_SOURCE, IFxRateSource } from './fx-rate-source';
+import { JsonFileRateSource } from './sources/json-file.rate-source';
+import { HttpRateSource } from './sources/http.rate-source';
+
+@Module({
+  providers: [
+    JsonFileRateSource,
+    HttpRateSource,
+    {
+      // FX_RATE_SOURCE=file (default, bundled or FX_RATES_FILE) or http (FX_RATES_URL)
+      provide: FX_RATE_SOURCE,
+      useFactory: (file: JsonFileRateSource, http: HttpRateSource): IFxRateSource =>
+        process.env.FX_RATE_SOURCE === 'http' ? http : file,
+      inject: [JsonFileRateSource, HttpRateSource],
+    },
+    FxService,
+  ],
+  exports: [FxService],
+})
+export class FxModule {}
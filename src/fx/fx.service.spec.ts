@@ -0,0 +1,87 @@
+import { FxService } from './fx.service';
+import { FxRates, IFxRateSource } from './fx-rate-source';
+import { FxRateUnavailableError } from './fx.errors';
+import { NormalizedFlight } from '../common/types';
+
+describe('FxService', () => {
+  let rates: FxRates;
+  let fetchRates: jest.Mock;
+  let service: FxService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    rates = { base: 'usd', rates: { EUR: 0.9, GBP: 0.8 }, asOf: '2026-10-01' };
+    fetchRates = jest.fn(async () => rates);
+    const source: IFxRateSource = { name: 'test', fetchRates };
+    service = new FxService(source);
+    await service.refreshRates();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('convert', () => {
+    it('converts through the base currency, rounded to cents', () => {
+      expect(service.convert(100, 'USD', 'EUR')).toBe(90);
+      expect(service.convert(100, 'eur', 'gbp')).toBe(88.89);
+    });
+
+    it('returns the amount unchanged for the same currency', () => {
+      expect(service.convert(123.456, 'JPY', 'jpy')).toBe(123.456);
+    });
+
+    it('throws FxRateUnavailableError for unknown currencies', () => {
+      expect(() => service.convert(100, 'USD', 'JPY')).toThrow(FxRateUnavailableError);
+    });
+  });
+
+  it('supports the base currency and every loaded rate', () => {
+    expect(service.isSupported('usd')).toBe(true);
+    expect(service.isSupported('GBP')).toBe(true);
+    expect(service.isSupported('JPY')).toBe(false);
+  });
+
+  it('keeps the last good rates when a refresh fails', async () => {
+    fetchRates.mockRejectedValueOnce(new Error('source down'));
+
+    await service.refreshRates();
+
+    expect(service.convert(100, 'USD', 'EUR')).toBe(90);
+  });
+
+  describe('convertFlight', () => {
+    const flight = {
+      id: 'demo_1',
+      price: 200,
+      currency: 'EUR',
+      pricing: {
+        total: 200,
+        base: 150,
+        perAdult: 100,
+        byPassengerType: [{ type: 'ADT', count: 2, perPassenger: 100, total: 200 }],
+        totalWithBags: { checkedBags: 1, total: 260 },
+      },
+    } as NormalizedFlight;
+
+    it('converts the price and every pricing amount, keeping the quoted price', () => {
+      const converted = service.convertFlight(flight, 'gbp');
+
+      expect(converted).toMatchObject({ price: 177.78, currency: 'GBP', originalPrice: 200, originalCurrency: 'EUR' });
+      expect(converted.pricing).toMatchObject({
+        total: 177.78,
+        base: 133.33,
+        perAdult: 88.89,
+        byPassengerType: [{ perPassenger: 88.89, total: 177.78 }],
+        totalWithBags: { checkedBags: 1, total: 231.11 },
+      });
+    });
+
+    it('converts from the quoted price when a flight is converted again', () => {
+      const twice = service.convertFlight(service.convertFlight(flight, 'GBP'), 'USD');
+
+      expect(twice).toMatchObject({ price: 222.22, currency: 'USD', originalPrice: 200, originalCurrency: 'EUR' });
+    });
+  });
+});
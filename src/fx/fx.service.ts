@@ -0,0 +1,123 @@
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { FX_RATE_SOURCE, FxRates, IFxRateSource } from './fx-rate-source';
+import { FxRateUnavailableError } from './fx.errors';
+import { FlightPricing, NormalizedFlight } from '../common/types';
+
+/**
+ * FX Service
+ * Converts prices between currencies using rates from the configured source
+ * Rates are loaded at startup and refreshed every FX_REFRESH_INTERVAL_MINUTES;
+ * if a refresh fails the last good rates stay in use
+ */
+@Injectable()
+export class FxService implements OnModuleInit, OnModuleDestroy {
+  readonly defaultCurrency = (process.env.DEFAULT_CURRENCY || 'USD').toUpperCase();
+  private readonly refreshIntervalMinutes = parseInt(process.env.FX_REFRESH_INTERVAL_MINUTES || '60');
+  private rates: FxRates | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(@Inject(FX_RATE_SOURCE) private rateSource: IFxRateSource) {}
+
+  async onModuleInit(): Promise<void> {
+    // Searches can't be converted without rates, so wait for the first load
+    await this.refreshRates();
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshRates().catch((error) => console.error('[FX] Rate refresh failed:', error));
+    }, this.refreshIntervalMinutes * 60 * 1000);
+  }
+
+  onModuleDestroy(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Reload rates from the source
+   */
+  async refreshRates(): Promise<void> {
+    try {
+      const rates = await this.rateSource.fetchRates();
+      this.rates = {
+        ...rates,
+        base: rates.base.toUpperCase(),
+        rates: { ...rates.rates, [rates.base.toUpperCase()]: 1 },
+      };
+      console.log(`[FX] Loaded ${Object.keys(this.rates.rates).length} rates from ${this.rateSource.name} (as of ${rates.asOf})`);
+    } catch (error) {
+      console.error(`[FX] Failed to load rates from ${this.rateSource.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Whether prices can be converted to and from a currency
+   */
+  isSupported(currency: string): boolean {
+    const code = currency.toUpperCase();
+    return code === this.defaultCurrency || !!this.rates?.rates[code];
+  }
+
+  /**
+   * Convert an amount between currencies, rounded to 2 decimals
+   */
+  convert(amount: number, from: string, to: string): number {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+
+    if (source === target) {
+      return amount;
+    }
+
+    const fromRate = this.rates?.rates[source];
+    const toRate = this.rates?.rates[target];
+    if (!fromRate || !toRate) {
+      throw new FxRateUnavailableError(source, target);
+    }
+
+    return Math.round((amount / fromRate) * toRate * 100) / 100;
+  }
+
+  /**
+   * Price a flight in another currency, keeping what the provider quoted
+   */
+  convertFlight(flight: NormalizedFlight, currency: string): NormalizedFlight {
+    const originalPrice = flight.originalPrice ?? flight.price;
+    const originalCurrency = flight.originalCurrency ?? flight.currency;
+
+    return {
+      ...flight,
+      price: this.convert(originalPrice, originalCurrency, currency),
+      currency: currency.toUpperCase(),
+      originalPrice,
+      originalCurrency,
+      pricing: flight.pricing && this.convertPricing(flight.pricing, flight.currency, currency),
+    };
+  }
+
+  /**
+   * Convert every amount in a price breakdown
+   */
+  private convertPricing(pricing: FlightPricing, from: string, to: string): FlightPricing {
+    const convert = (amount: number) => this.convert(amount, from, to);
+    const optional = (amount?: number) => (amount === undefined ? undefined : convert(amount));
+
+    return {
+      total: convert(pricing.total),
+      base: optional(pricing.base),
+      taxes: optional(pricing.taxes),
+      fees: optional(pricing.fees),
+      perAdult: convert(pricing.perAdult),
+      byPassengerType: pricing.byPassengerType?.map((entry) => ({
+        ...entry,
+        perPassenger: convert(entry.perPassenger),
+        total: convert(entry.total),
+      })),
+      totalWithBags: pricing.totalWithBags && {
+        ...pricing.totalWithBags,
+        total: convert(pricing.totalWithBags.total),
+      },
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { FxRates, IFxRateSource } from '../fx-rate-source';
+
+/**
+ * HTTP Rate Source
+ * Fetches rates as JSON from FX_RATES_URL (same shape as the file source)
+ */
+@Injectable()
+export class HttpRateSource implements IFxRateSource {
+  name = 'http';
+
+  async fetchRates(): Promise<FxRates> {
+    const url = process.env.FX_RATES_URL;
+    if (!url) {
+      throw new Error('FX_RATES_URL is required for the http rate source');
+    }
+
+    const response = await axios.get(url, {
+      timeout: parseInt(process.env.FX_RATES_TIMEOUT_MS || '5000'),
+    });
+
+    return {
+      base: response.data.base,
+      rates: response.data.rates,
+      asOf: response.data.asOf || response.data.date || new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { FxRates, IFxRateSource } from '../fx-rate-source';
+import bundledRates from '../data/rates.json';
+
+/**
+ * JSON File Rate Source
+ * Reads rates from FX_RATES_FILE, or the bundled snapshot when unset
+ * Expected shape: { "base": "USD", "asOf": "...", "rates": { "EUR": 0.92, ... } }
+ */
+@Injectable()
+export class JsonFileRateSource implements IFxRateSource {
+  name = 'file';
+
+  async fetchRates(): Promise<FxRates> {
+    const path = process.env.FX_RATES_FILE;
+    if (!path) {
+      return bundledRates as FxRates;
+    }
+
+    return JSON.parse(await readFile(path, 'utf8')) as FxRates;
+  }
+}
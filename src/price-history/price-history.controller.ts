@@ -0,0 +1,28 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { PriceHistoryService } from './price-history.service';
+import { RouteHistoryQueryDto } from './price-history.dto';
+import { PriceHistory } from '../common/types';
+import { DatabaseReadyGuard } from '../database/database-ready.guard';
+
+/**
+ * Route Price History Controller
+ * Price trends built from past searches
+ */
+@Controller('api/routes')
+@UseGuards(DatabaseReadyGuard)
+export class PriceHistoryController {
+  constructor(private priceHistoryService: PriceHistoryService) {}
+
+  /**
+   * GET /api/routes/:from/:to/history?departDate=2026-12-01
+   * Cheapest and median price of every recorded search for the route, oldest first
+   */
+  @Get(':from/:to/history')
+  getHistory(
+    @Param('from') from: string,
+    @Param('to') to: string,
+    @Query() query: RouteHistoryQueryDto,
+  ): Promise<PriceHistory> {
+    return this.priceHistoryService.getHistory(from.toUpperCase(), to.toUpperCase(), query);
+  }
+}
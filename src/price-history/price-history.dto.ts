@@ -0,0 +1,47 @@
+import { IsOptional, IsEnum, IsInt, IsNumber, Min, Max, Matches, ValidateIf } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * DTO for a route's price history (GET /api/routes/:from/:to/history)
+ * Snapshots only match the same trip type, cabin and party size, since
+ * recorded prices are totals for the whole party
+ */
+export class RouteHistoryQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'departDate must be in YYYY-MM-DD format' })
+  departDate?: string;
+
+  // Required for round trips
+  @ValidateIf((o) => o.tripType === 'round-trip' || o.returnDate !== undefined)
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'returnDate must be in YYYY-MM-DD format' })
+  returnDate?: string;
+
+  // Defaults to round-trip when returnDate is given, one-way otherwise
+  @IsOptional()
+  @IsEnum(['one-way', 'round-trip'])
+  tripType?: 'one-way' | 'round-trip';
+
+  // Omitted matches searches without a cabin preference
+  @IsOptional()
+  @IsEnum(['economy', 'business', 'first', 'premium-economy'])
+  cabin?: 'economy' | 'business' | 'first' | 'premium-economy';
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(9)
+  passengers: number = 1;
+
+  // Prices are converted to this currency (defaults to DEFAULT_CURRENCY)
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @Matches(/^[A-Z]{3}$/, { message: 'currency must be a 3-letter ISO 4217 code' })
+  currency?: string;
+
+  // How far back to look
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(365)
+  days: number = 90;
+}
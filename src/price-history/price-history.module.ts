@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PriceHistoryController } from './price-history.controller';
+import { PriceHistoryService } from './price-history.service';
+import { PriceSnapshot } from './price-snapshot.entity';
+import { FxModule } from '../fx/fx.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PriceSnapshot]), FxModule],
+  controllers: [PriceHistoryController],
+  providers: [PriceHistoryService],
+  exports: [PriceHistoryService],
+})
+export class PriceHistoryModule {}
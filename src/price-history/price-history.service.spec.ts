@@ -0,0 +1,112 @@
+import { FindOperator, Repository } from 'typeorm';
+import { PriceHistoryService } from './price-history.service';
+import { PriceSnapshot } from './price-snapshot.entity';
+import { RouteHistoryQueryDto } from './price-history.dto';
+import { FxService } from '../fx/fx.service';
+import { FlightSearchParams, FlightSearchResult, NormalizedFlight } from '../common/types';
+
+function historyQuery(overrides: Partial<RouteHistoryQueryDto> = {}): RouteHistoryQueryDto {
+  return Object.assign(new RouteHistoryQueryDto(), { currency: 'EUR', ...overrides });
+}
+
+describe('PriceHistoryService', () => {
+  let find: jest.Mock;
+  let save: jest.Mock;
+  let service: PriceHistoryService;
+
+  const isNull = (value: unknown) => value instanceof FindOperator && value.type === 'isNull';
+  const lastWhere = () => find.mock.calls[find.mock.calls.length - 1][0].where;
+
+  beforeEach(() => {
+    find = jest.fn().mockResolvedValue([]);
+    save = jest.fn();
+    const repository = {
+      find,
+      save,
+      create: (snapshot: Partial<PriceSnapshot>) => snapshot,
+      manager: { connection: { isInitialized: true } },
+    } as unknown as Repository<PriceSnapshot>;
+    const fx = { defaultCurrency: 'USD', convert: (amount: number) => amount } as unknown as FxService;
+    service = new PriceHistoryService(repository, fx);
+  });
+
+  describe('getHistory', () => {
+    it('defaults to one adult, one-way and no cabin preference', async () => {
+      await service.getHistory('LHR', 'JFK', historyQuery());
+
+      const where = lastWhere();
+      expect(where).toMatchObject({ from: 'LHR', to: 'JFK', tripType: 'one-way', passengers: 1 });
+      expect(isNull(where.returnDate)).toBe(true);
+      expect(isNull(where.cabin)).toBe(true);
+    });
+
+    it('treats a return date as a round trip', async () => {
+      const history = await service.getHistory('LHR', 'JFK', historyQuery({ returnDate: '2099-06-10' }));
+
+      expect(lastWhere()).toMatchObject({ tripType: 'round-trip', returnDate: '2099-06-10' });
+      expect(history).toMatchObject({ tripType: 'round-trip', returnDate: '2099-06-10', passengers: 1 });
+    });
+
+    it('matches the requested cabin and party size', async () => {
+      await service.getHistory('LHR', 'JFK', historyQuery({ cabin: 'business', passengers: 4 }));
+
+      expect(lastWhere()).toMatchObject({ cabin: 'business', passengers: 4 });
+    });
+  });
+
+  describe('getInsight', () => {
+    const params: FlightSearchParams = { from: 'LHR', to: 'JFK', departDate: '2099-06-01', tripType: 'one-way', passengers: 2 };
+
+    it('compares against snapshots of the same trip and party size', async () => {
+      find.mockResolvedValue([300, 320, 340, 360, 380].map((minPrice) => ({ minPrice, currency: 'EUR' })));
+
+      const insight = await service.getInsight(params, 290, 'EUR');
+
+      expect(lastWhere()).toMatchObject({ tripType: 'one-way', passengers: 2 });
+      expect(insight).toMatchObject({ level: 'low', typicalRange: { low: 320, high: 360 }, sampleSize: 5 });
+    });
+
+    it('waits for enough samples', async () => {
+      find.mockResolvedValue([{ minPrice: 300, currency: 'EUR' }]);
+
+      await expect(service.getInsight(params, 290, 'EUR')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('record', () => {
+    const result = (query: Partial<FlightSearchParams>): FlightSearchResult => ({
+      status: 'success',
+      query: { from: 'LHR', to: 'JFK', departDate: '2099-06-01', tripType: 'one-way', passengers: 1, ...query },
+      flights: [{ id: 'demo_1', provider: 'demo', price: 300, currency: 'EUR' } as NormalizedFlight],
+      totalResults: 1,
+      providersQueried: [],
+      timestamp: new Date().toISOString(),
+      cacheHit: false,
+    });
+
+    it('stores the trip, party size and prices of a full search', async () => {
+      await service.record(result({ passengers: 3, cabin: 'economy' }));
+
+      expect(save.mock.calls[0][0]).toMatchObject({
+        tripType: 'one-way',
+        returnDate: null,
+        cabin: 'economy',
+        passengers: 3,
+        minPrice: 300,
+        providers: [{ provider: 'demo', minPrice: 300 }],
+      });
+    });
+
+    it.each([
+      ['a price cap', { maxPrice: 500 }],
+      ['chosen providers', { includeProviders: ['demo'] }],
+      ['chosen airlines', { airlines: ['BA'] }],
+      ['nearby airports', { includeNearbyAirports: true }],
+      ['an open jaw', { tripType: 'round-trip' as const, returnDate: '2099-06-10', returnFrom: 'EWR' }],
+    ])('skips searches narrowed by %s', async (_, query) => {
+      await service.record(result(query));
+
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThanOrEqual, Repository } from 'typeorm';
+import { PriceSnapshot } from './price-snapshot.entity';
+import { RouteHistoryQueryDto } from './price-history.dto';
+import { FxService } from '../fx/fx.service';
+import { FxRateUnavailableError } from '../fx/fx.errors';
+import {
+  FlightSearchParams,
+  FlightSearchResult,
+  NormalizedFlight,
+  PriceHistory,
+  PriceHistoryPoint,
+  PriceInsight,
+  ProviderPriceSummary,
+} from '../common/types';
+import { rankingEngine } from '../ranking/ranking.engine';
+import { isOpenJaw } from '../common/trip.utils';
+
+/**
+ * Price History Service
+ * Records a summary of every fresh search and answers price-trend questions
+ * Snapshots keep the currency they were searched in and are converted on read
+ */
+@Injectable()
+export class PriceHistoryService {
+  private readonly insightWindowDays = parseInt(process.env.PRICE_INSIGHT_WINDOW_DAYS || '60');
+  private readonly minInsightSamples = parseInt(process.env.PRICE_INSIGHT_MIN_SAMPLES || '5');
+
+  constructor(
+    @InjectRepository(PriceSnapshot) private snapshotRepository: Repository<PriceSnapshot>,
+    private fxService: FxService,
+  ) {}
+
+  /**
+   * Store a summary of a search result
+   * Cache hits, multi-city, open-jaw and narrowed searches and empty results
+   * are skipped, as is everything while the database is unreachable
+   */
+  async record(result: FlightSearchResult): Promise<void> {
+    const query = result.query;
+    if (
+      !this.isDatabaseReady() ||
+      result.cacheHit ||
+      query.tripType === 'multi-city' ||
+      isOpenJaw(query) ||
+      this.isNarrowed(query) ||
+      result.flights.length === 0
+    ) {
+      return;
+    }
+
+    const stats = rankingEngine.getPriceStats(result.flights);
+
+    await this.snapshotRepository.save(
+      this.snapshotRepository.create({
+        from: query.from,
+        to: query.to,
+        departDate: query.departDate,
+        returnDate: query.tripType === 'round-trip' ? query.returnDate ?? null : null,
+        tripType: query.tripType,
+        cabin: query.cabin ?? null,
+        passengers: this.countPassengers(query),
+        currency: result.flights[0].currency,
+        minPrice: stats.min,
+        medianPrice: stats.median,
+        providers: this.summarizeProviders(result.flights),
+        resultsCount: result.totalResults,
+      }),
+    );
+  }
+
+  /**
+   * Price curve for a route, oldest first
+   * Only snapshots for the same trip type, return date, cabin and party size
+   * are included, so every point prices the same trip
+   */
+  async getHistory(from: string, to: string, query: RouteHistoryQueryDto): Promise<PriceHistory> {
+    const currency = (query.currency || this.fxService.defaultCurrency).toUpperCase();
+    const tripType = query.tripType ?? (query.returnDate ? 'round-trip' : 'one-way');
+    const returnDate = tripType === 'round-trip' ? query.returnDate : undefined;
+
+    const snapshots = await this.snapshotRepository.find({
+      where: {
+        from,
+        to,
+        ...(query.departDate && { departDate: query.departDate }),
+        tripType,
+        returnDate: returnDate ?? IsNull(),
+        cabin: query.cabin ?? IsNull(),
+        passengers: query.passengers,
+        recordedAt: MoreThanOrEqual(this.daysAgo(query.days)),
+      },
+      order: { recordedAt: 'ASC' },
+      take: 1000,
+    });
+
+    const points: PriceHistoryPoint[] = [];
+    for (const snapshot of snapshots) {
+      const point = this.toPoint(snapshot, currency);
+      if (point) {
+        points.push(point);
+      }
+    }
+
+    return {
+      from,
+      to,
+      departDate: query.departDate,
+      returnDate,
+      tripType,
+      cabin: query.cabin,
+      passengers: query.passengers,
+      currency,
+      points,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Rate a cheapest fare against past searches for the same trip
+   * Returns undefined until there are enough past searches to compare with
+   */
+  async getInsight(params: FlightSearchParams, cheapestPrice: number, currency: string): Promise<PriceInsight | undefined> {
+    if (!this.isDatabaseReady() || params.tripType === 'multi-city' || isOpenJaw(params)) {
+      return undefined;
+    }
+
+    const snapshots = await this.snapshotRepository.find({
+      where: {
+        from: params.from,
+        to: params.to,
+        departDate: params.departDate,
+        tripType: params.tripType,
+        returnDate: params.tripType === 'round-trip' && params.returnDate ? params.returnDate : IsNull(),
+        cabin: params.cabin ?? IsNull(),
+        passengers: this.countPassengers(params),
+        recordedAt: MoreThanOrEqual(this.daysAgo(this.insightWindowDays)),
+      },
+      select: { minPrice: true, currency: true },
+    });
+
+    const history = snapshots
+      .map((snapshot) => this.convert(snapshot.minPrice, snapshot.currency, currency))
+      .filter((price): price is number => price !== null)
+      .sort((a, b) => a - b);
+
+    if (history.length < this.minInsightSamples) {
+      return undefined;
+    }
+
+    const low = this.percentile(history, 0.25);
+    const high = this.percentile(history, 0.75);
+
+    return {
+      level: cheapestPrice < low ? 'low' : cheapestPrice > high ? 'high' : 'typical',
+      cheapestPrice,
+      typicalRange: { low, high },
+      currency,
+      sampleSize: history.length,
+    };
+  }
+
+  /**
+   * Cheapest and median price per provider, based on each provider's offers
+   */
+  private summarizeProviders(flights: NormalizedFlight[]): ProviderPriceSummary[] {
+    const byProvider = new Map<string, NormalizedFlight[]>();
+
+    for (const flight of flights) {
+      const offers = flight.offers || [{ provider: flight.provider, price: flight.price }];
+      for (const offer of offers) {
+        const priced = { ...flight, price: offer.price };
+        byProvider.set(offer.provider, [...(byProvider.get(offer.provider) || []), priced]);
+      }
+    }
+
+    return Array.from(byProvider.entries()).map(([provider, providerFlights]) => {
+      const stats = rankingEngine.getPriceStats(providerFlights);
+      return {
+        provider,
+        minPrice: stats.min,
+        medianPrice: stats.median,
+        resultsCount: providerFlights.length,
+      };
+    });
+  }
+
+  private toPoint(snapshot: PriceSnapshot, currency: string): PriceHistoryPoint | null {
+    const minPrice = this.convert(snapshot.minPrice, snapshot.currency, currency);
+    const medianPrice = this.convert(snapshot.medianPrice, snapshot.currency, currency);
+    if (minPrice === null || medianPrice === null) {
+      return null;
+    }
+
+    return {
+      recordedAt: snapshot.recordedAt.toISOString(),
+      departDate: snapshot.departDate,
+      returnDate: snapshot.returnDate ?? undefined,
+      minPrice,
+      medianPrice,
+      providers: snapshot.providers.map((summary) => ({
+        ...summary,
+        minPrice: this.convert(summary.minPrice, snapshot.currency, currency) ?? summary.minPrice,
+        medianPrice: this.convert(summary.medianPrice, snapshot.currency, currency) ?? summary.medianPrice,
+      })),
+    };
+  }
+
+  /**
+   * Whether a search saw only part of the route's market (a price cap, some
+   * providers or airlines) or other airports; its prices aren't comparable
+   * with a full search, so it isn't recorded
+   */
+  private isNarrowed(query: FlightSearchParams): boolean {
+    return (
+      query.maxPrice !== undefined ||
+      !!query.includeProviders?.length ||
+      !!query.airlines?.length ||
+      !!query.includeNearbyAirports
+    );
+  }
+
+  private isDatabaseReady(): boolean {
+    return this.snapshotRepository.manager.connection.isInitialized;
+  }
+
+  /**
+   * Convert a recorded price, or null when no exchange rate is known
+   */
+  private convert(amount: number, from: string, to: string): number | null {
+    try {
+      return this.fxService.convert(amount, from, to);
+    } catch (error) {
+      if (error instanceof FxRateUnavailableError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Linear-interpolated percentile of an ascending list
+   */
+  private percentile(sorted: number[], p: number): number {
+    const position = (sorted.length - 1) * p;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+    return Math.round(value * 100) / 100;
+  }
+
+  private countPassengers(params: FlightSearchParams): number {
+    const breakdown = params.passengerBreakdown;
+    return breakdown ? breakdown.adults + breakdown.children + breakdown.infants : params.passengers ?? 1;
+  }
+
+  private daysAgo(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,53 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { numericTransformer } from '../database/numeric.transformer';
+import { ProviderPriceSummary } from '../common/types';
+
+/**
+ * Compact summary of one search result, kept after the cached result expires
+ */
+@Entity('price_snapshots')
+@Index(['from', 'to', 'departDate'])
+export class PriceSnapshot {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'origin', length: 3 })
+  from!: string;
+
+  @Column({ name: 'destination', length: 3 })
+  to!: string;
+
+  @Column({ type: 'date' })
+  departDate!: string; // YYYY-MM-DD
+
+  @Column({ type: 'date', nullable: true })
+  returnDate!: string | null; // YYYY-MM-DD for round-trip
+
+  @Column({ type: 'varchar', length: 16 })
+  tripType!: 'one-way' | 'round-trip';
+
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  cabin!: 'economy' | 'business' | 'first' | 'premium-economy' | null;
+
+  @Column({ type: 'int' })
+  passengers!: number;
+
+  @Column({ type: 'varchar', length: 3 })
+  currency!: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: numericTransformer })
+  minPrice!: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: numericTransformer })
+  medianPrice!: number;
+
+  @Column({ type: 'jsonb' })
+  providers!: ProviderPriceSummary[];
+
+  @Column({ type: 'int' })
+  resultsCount!: number;
+
+  @Index()
+  @CreateDateColumn({ type: 'timestamptz' })
+  recordedAt!: Date;
+}
@@ -0,0 +1,100 @@
+import { AmadeusProvider } from './amadeus.provider';
+import { ProvidersConfig } from './provider.config';
+import { AirlinesService } from '../airlines/airlines.service';
+import { AffiliateLinksService } from '../affiliate/affiliate-links.service';
+import { FlightSearchParams } from '../common/types';
+
+function rawSegment(id: string, from: string, to: string, at: string, number: string) {
+  return {
+    id,
+    departure: { iataCode: from, at },
+    arrival: { iataCode: to, at },
+    carrierCode: 'BA',
+    number,
+    duration: 'PT2H',
+  };
+}
+
+const rawOffer = {
+  id: '1',
+  itineraries: [
+    { duration: 'PT2H', segments: [rawSegment('1', 'LHR', 'CDG', '2099-06-01T08:00:00', '304')] },
+    { duration: 'PT2H', segments: [rawSegment('2', 'CDG', 'FCO', '2099-06-05T09:00:00', '560')] },
+  ],
+  price: { currency: 'EUR', total: '250.00', base: '200.00', grandTotal: '250.00' },
+  travelerPricings: [{ travelerType: 'ADULT', price: { total: '250.00' } }],
+};
+
+describe('AmadeusProvider', () => {
+  let provider: AmadeusProvider;
+  let post: jest.SpyInstance;
+
+  const multiCity: FlightSearchParams = {
+    from: 'LHR',
+    to: 'CDG',
+    departDate: '2099-06-01',
+    tripType: 'multi-city',
+    passengers: 1,
+    segments: [
+      { from: 'LHR', to: 'CDG', departDate: '2099-06-01' },
+      { from: 'CDG', to: 'FCO', departDate: '2099-06-05' },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const config = {
+      amadeus: { name: 'amadeus', enabled: true, apiKey: 'key', apiSecret: 'secret', baseUrl: 'https://amadeus.test', timeoutMs: 1000 },
+    } as ProvidersConfig;
+    provider = new AmadeusProvider(config, new AirlinesService(), new AffiliateLinksService());
+    // Skip the OAuth call
+    provider['accessToken'] = 'token';
+    provider['tokenExpiry'] = Date.now() + 60_000;
+    post = jest.spyOn(provider['httpClient'], 'post').mockResolvedValue({ status: 200, data: { data: [rawOffer] } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('posts one originDestination per multi-city leg with the method override header', async () => {
+    await provider.search(multiCity);
+
+    const [path, body, options] = post.mock.calls[0];
+    expect(path).toBe('/shopping/flight-offers');
+    expect(body.originDestinations).toEqual([
+      { id: '1', originLocationCode: 'LHR', destinationLocationCode: 'CDG', departureDateTimeRange: { date: '2099-06-01' } },
+      { id: '2', originLocationCode: 'CDG', destinationLocationCode: 'FCO', departureDateTimeRange: { date: '2099-06-05' } },
+    ]);
+    expect(options.headers).toEqual({ Authorization: 'Bearer token', 'X-HTTP-Method-Override': 'GET' });
+  });
+
+  it('posts open-jaw round trips with the inbound leg from returnFrom', async () => {
+    await provider.search({
+      from: 'LHR',
+      to: 'CDG',
+      departDate: '2099-06-01',
+      returnDate: '2099-06-05',
+      returnFrom: 'FCO',
+      tripType: 'round-trip',
+      passengers: 1,
+    });
+
+    const [, body, options] = post.mock.calls[0];
+    expect(body.originDestinations.map((od: any) => [od.originLocationCode, od.destinationLocationCode])).toEqual([
+      ['LHR', 'CDG'],
+      ['FCO', 'LHR'],
+    ]);
+    expect(options.headers['X-HTTP-Method-Override']).toBe('GET');
+  });
+
+  it('normalizes each multi-city leg as an outbound itinerary with its leg index', async () => {
+    const [flight] = await provider.search(multiCity);
+
+    expect(flight.itineraries!.map((itin) => [itin.direction, itin.legIndex, itin.segments[0].flightNumber])).toEqual([
+      ['outbound', 0, 'BA304'],
+      ['outbound', 1, 'BA560'],
+    ]);
+    expect(flight).toMatchObject({ id: 'amadeus_1', price: 250, currency: 'EUR', tripType: 'multi-city' });
+  });
+});
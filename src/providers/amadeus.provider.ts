@@ -1,23 +1,46 @@
+import { Inject, Injectable } from '@nestjs/common';
 import axios, { Axios } from 'axios';
 import { BaseFlightProvider } from './base.provider';
-import { FlightSearchParams, NormalizedFlight, FlightItinerary, FlightSegmentDetail } from '../common/types';
+import { PROVIDERS_CONFIG, ProvidersConfig } from './provider.config';
+import { AirlinesService } from '../airlines/airlines.service';
+import { AffiliateLinksService } from '../affiliate/affiliate-links.service';
+import { getReturnRoute, isOpenJaw } from '../common/trip.utils';
+import {
+  CheapestDateFare,
+  CheapestDatesRequest,
+  FlightSearchParams,
+  NormalizedFlight,
+  FlightItinerary,
+  FlightSegmentDetail,
+  BaggageAllowance,
+  FareDetails,
+  FlightPricing,
+  PassengerType,
+  PassengerTypePrice,
+  ProviderPriceQuote,
+  SegmentFare,
+} from '../common/types';
 
 /**
  * Amadeus API Provider Implementation
  * Reference: https://developers.amadeus.com/apis
  */
+@Injectable()
 export class AmadeusProvider extends BaseFlightProvider {
   name = 'amadeus';
-  protected baseUrl = 'https://test.api.amadeus.com/v2';
   private httpClient: Axios;
   private accessToken: string = '';
   private tokenExpiry: number = 0;
 
-  constructor(apiKey: string, apiSecret: string) {
-    super(apiKey, apiSecret);
+  constructor(
+    @Inject(PROVIDERS_CONFIG) config: ProvidersConfig,
+    private airlinesService: AirlinesService,
+    private affiliateLinks: AffiliateLinksService,
+  ) {
+    super(config.amadeus);
     this.httpClient = axios.create({
-      baseURL: this.baseUrl,
-      timeout: 10000,
+      baseURL: `${this.baseUrl}/v2`,
+      timeout: this.timeoutMs,
     });
   }
 
@@ -26,16 +49,7 @@ export class AmadeusProvider extends BaseFlightProvider {
       // Ensure we have a valid access token
       await this.ensureValidToken();
 
-      const amadeusParams = this.buildSearchParams(params);
-      
-      console.log('[AMADEUS] Search params:', JSON.stringify(amadeusParams, null, 2));
-      
-      const response = await this.httpClient.get('/shopping/flight-offers', {
-        params: amadeusParams,
-        headers: {
-          Authorization: `Bearer ${this.accessToken}`,
-        },
-      });
+      const response = await this.requestFlightOffers(params);
 
       console.log('[AMADEUS] Response status:', response.status);
       console.log('[AMADEUS] Response data:', JSON.stringify(response.data, null, 2));
@@ -59,6 +73,81 @@ export class AmadeusProvider extends BaseFlightProvider {
     }
   }
 
+  /**
+   * Cheapest fare per departure date via the Flight Cheapest Date Search API
+   * Reference: https://developers.amadeus.com/self-service/category/flights/api-doc/flight-cheapest-date-search
+   * Note: this API is served from Amadeus' cache and only covers some routes
+   */
+  async findCheapestDates(request: CheapestDatesRequest): Promise<CheapestDateFare[]> {
+    try {
+      await this.ensureValidToken();
+
+      const response = await this.httpClient.get(`${this.baseUrl}/v1/shopping/flight-dates`, {
+        params: {
+          origin: request.from,
+          destination: request.to,
+          departureDate: `${request.startDate},${request.endDate}`,
+          oneWay: true,
+        },
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+        },
+      });
+
+      const currency = response.data.meta?.currency || 'USD';
+      return (response.data.data || []).map((entry: any) => ({
+        date: entry.departureDate,
+        price: parseFloat(entry.price.total),
+        currency,
+        provider: this.name,
+      }));
+    } catch (error) {
+      console.error(`[AMADEUS] Cheapest dates error:`, error instanceof Error ? error.message : error);
+      if (axios.isAxiosError(error)) {
+        console.error('[AMADEUS] Response data:', error.response?.data);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Re-price an offer via the Flight Offers Price API
+   * Reference: https://developers.amadeus.com/self-service/category/flights/api-doc/flight-offers-price
+   * Takes the offer exactly as flight-offers search returned it
+   */
+  async confirmPrice(rawOffer: any): Promise<ProviderPriceQuote> {
+    try {
+      await this.ensureValidToken();
+
+      const response = await this.httpClient.post(
+        `${this.baseUrl}/v1/shopping/flight-offers/pricing`,
+        { data: { type: 'flight-offers-pricing', flightOffers: [rawOffer] } },
+        {
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+            // Required by the pricing endpoint, which is a POST only because of the body size
+            'X-HTTP-Method-Override': 'GET',
+          },
+        },
+      );
+
+      const offer = response.data.data.flightOffers[0];
+      return {
+        price: parseFloat(offer.price.grandTotal),
+        currency: offer.price.currency,
+        // The pricing response doesn't always repeat the seat count
+        seatsLeft: offer.numberOfBookableSeats ?? rawOffer.numberOfBookableSeats,
+        lastTicketingDate: offer.lastTicketingDate,
+      };
+    } catch (error) {
+      console.error(`[AMADEUS] Pricing error:`, error instanceof Error ? error.message : error);
+      if (axios.isAxiosError(error)) {
+        console.error('[AMADEUS] Response data:', error.response?.data);
+      }
+      throw error;
+    }
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       await this.ensureValidToken();
@@ -68,6 +157,10 @@ export class AmadeusProvider extends BaseFlightProvider {
     }
   }
 
+  isConfigured(): boolean {
+    return !!(this.apiKey && this.apiSecret);
+  }
+
   canHandle(params: FlightSearchParams): boolean {
     // Amadeus supports most major airports
     // In production, maintain a list of supported airports
@@ -86,7 +179,7 @@ export class AmadeusProvider extends BaseFlightProvider {
       params.append('client_secret', this.apiSecret || '');
 
       const response = await axios.post(
-        'https://test.api.amadeus.com/v1/security/oauth2/token',
+        `${this.baseUrl}/v1/security/oauth2/token`,
         params,
         {
           timeout: 5000,
@@ -119,8 +212,32 @@ export class AmadeusProvider extends BaseFlightProvider {
     }
   }
 
+  /**
+   * Call the flight-offers search API
+   * Multi-city and open-jaw searches need the POST body (one
+   * originDestination per leg), everything else uses the simpler GET query
+   */
+  private async requestFlightOffers(params: FlightSearchParams) {
+    const headers = { Authorization: `Bearer ${this.accessToken}` };
+
+    if ((params.tripType === 'multi-city' && params.segments) || isOpenJaw(params)) {
+      const body = this.buildSearchBody(params);
+      console.log('[AMADEUS] Search body:', JSON.stringify(body, null, 2));
+      return this.httpClient.post('/shopping/flight-offers', body, {
+        // Amadeus requires the override on the POST variant of the search
+        headers: { ...headers, 'X-HTTP-Method-Override': 'GET' },
+      });
+    }
+
+    const amadeusParams = this.buildSearchParams(params);
+    console.log('[AMADEUS] Search params:', JSON.stringify(amadeusParams, null, 2));
+    return this.httpClient.get('/shopping/flight-offers', { params: amadeusParams, headers });
+  }
+
   /**
    * Build Amadeus-specific query parameters
+   * maxPrice isn't sent: the aggregator applies it on the requested price
+   * basis, and cached results are shared between searches with different limits
    */
   private buildSearchParams(params: FlightSearchParams): Record<string, any> {
     const breakdown = params.passengerBreakdown;
@@ -129,7 +246,7 @@ export class AmadeusProvider extends BaseFlightProvider {
       destinationLocationCode: params.to,
       departureDate: params.departDate,
       adults: breakdown ? breakdown.adults : (params.passengers || 1),
-      currencyCode: 'USD',
+      currencyCode: params.currency || 'USD',
     };
 
     if (breakdown?.children) {
@@ -147,15 +264,83 @@ export class AmadeusProvider extends BaseFlightProvider {
       searchParams.travelClass = this.mapCabin(params.cabin);
     }
 
-    if (params.maxPrice) {
-      searchParams.maxPrice = params.maxPrice;
-    }
-
     searchParams.max = 50; // Return top 50 results
 
     return searchParams;
   }
 
+  /**
+   * Build Amadeus POST request body
+   * Reference: https://developers.amadeus.com/self-service/category/flights/api-doc/flight-offers-search
+   */
+  private buildSearchBody(params: FlightSearchParams): Record<string, any> {
+    const legs = params.tripType === 'multi-city'
+      ? params.segments || []
+      : [
+          { from: params.from, to: params.to, departDate: params.departDate },
+          { ...getReturnRoute(params), departDate: params.returnDate! },
+        ];
+    const originDestinations = legs.map((leg, index) => ({
+      id: String(index + 1),
+      originLocationCode: leg.from,
+      destinationLocationCode: leg.to,
+      departureDateTimeRange: { date: leg.departDate },
+    }));
+
+    const searchCriteria: Record<string, any> = {
+      maxFlightOffers: 50, // Return top 50 results
+    };
+
+    if (params.cabin) {
+      searchCriteria.flightFilters = {
+        cabinRestrictions: [
+          {
+            cabin: this.mapCabin(params.cabin),
+            coverage: 'MOST_SEGMENTS',
+            originDestinationIds: originDestinations.map((od) => od.id),
+          },
+        ],
+      };
+    }
+
+    return {
+      currencyCode: params.currency || 'USD',
+      originDestinations,
+      travelers: this.buildTravelers(params),
+      sources: ['GDS'],
+      searchCriteria,
+    };
+  }
+
+  /**
+   * Build the travelers list for the POST body
+   * Infants travel on an adult's lap, so each one is associated with an adult
+   */
+  private buildTravelers(params: FlightSearchParams): Record<string, any>[] {
+    const breakdown = params.passengerBreakdown || {
+      adults: params.passengers || 1,
+      children: 0,
+      infants: 0,
+    };
+    const travelers: Record<string, any>[] = [];
+
+    for (let i = 0; i < breakdown.adults; i++) {
+      travelers.push({ id: String(travelers.length + 1), travelerType: 'ADULT' });
+    }
+    for (let i = 0; i < breakdown.children; i++) {
+      travelers.push({ id: String(travelers.length + 1), travelerType: 'CHILD' });
+    }
+    for (let i = 0; i < breakdown.infants; i++) {
+      travelers.push({
+        id: String(travelers.length + 1),
+        travelerType: 'HELD_INFANT',
+        associatedAdultId: String((i % breakdown.adults) + 1),
+      });
+    }
+
+    return travelers;
+  }
+
   /**
    * Map our cabin types to Amadeus cabin types
    */
@@ -212,26 +397,34 @@ export class AmadeusProvider extends BaseFlightProvider {
 
     const stops = outboundItinerary.segments.length - 1;
 
-    // Build detailed itineraries
-    const itineraries: FlightItinerary[] = rawFlight.itineraries.map(
-      (itin: any, idx: number) => this.buildItinerary(itin, idx === 0 ? 'outbound' : 'inbound', params.cabin),
-    );
+    // Build detailed itineraries (one per leg for multi-city)
+    const isMultiCity = params.tripType === 'multi-city';
+    const segmentFares = this.buildSegmentFares(rawFlight);
+    const itineraries: FlightItinerary[] = rawFlight.itineraries.map((itin: any, idx: number) => {
+      const direction = idx === 0 || isMultiCity ? 'outbound' : 'inbound';
+      const itinerary = this.buildItinerary(itin, direction, params.cabin, segmentFares);
+      return isMultiCity ? { ...itinerary, legIndex: idx } : itinerary;
+    });
+
+    const carrier = this.airlinesService.getCarrierInfo(firstSegment.carrierCode);
 
-    // Generate deep link for booking (affiliate)
-    const bookingUrl = `https://www.kiwi.com/deep?${new URLSearchParams({
-      from: params.from,
-      to: params.to,
-      departure: params.departDate,
-      return: params.returnDate || '',
-      flightId: rawFlight.id,
-      affiliateId: process.env.KIWI_AFFILIATE_ID || 'findmyflight',
-    }).toString()}`;
+    // Deep link with the airline (or the fallback OTA) for booking
+    const bookingUrl = this.affiliateLinks.buildBookingUrl({
+      provider: this.name,
+      airlineCode: firstSegment.carrierCode,
+      offerRef: rawFlight.id,
+      params,
+    });
+
+    const fare = this.buildFareDetails(rawFlight, itineraries.flatMap((itin) => itin.segments));
 
     return {
       id: `amadeus_${rawFlight.id}`,
       provider: this.name,
-      airline: this.getAirlineName(firstSegment.carrierCode),
+      airline: carrier.name,
       airlineCode: firstSegment.carrierCode,
+      alliance: carrier.alliance,
+      logoUrl: carrier.logoUrl,
       departureTime: firstSegment.departure.at,
       arrivalTime: lastSegment.arrival.at,
       duration: durationMinutes,
@@ -241,29 +434,125 @@ export class AmadeusProvider extends BaseFlightProvider {
       price: parseFloat(rawFlight.price.grandTotal),
       currency: rawFlight.price.currency,
       bookingUrl: bookingUrl,
+      pricing: this.buildPricing(rawFlight, fare, params.checkedBags ?? 1),
+      fare,
+      seatsLeft: rawFlight.numberOfBookableSeats,
+      lastTicketingDate: rawFlight.lastTicketingDate,
       tripType: params.tripType,
       departureAirport: params.from,
       arrivalAirport: params.to,
       departureDate: params.departDate,
       returnDate: params.returnDate,
+      // The pricing API needs the offer exactly as search returned it
+      rawOffer: rawFlight,
     };
   }
 
-  private buildItinerary(itin: any, direction: 'outbound' | 'inbound', cabin?: string): FlightItinerary {
-    const segments: FlightSegmentDetail[] = itin.segments.map((seg: any) => ({
-      departureAirport: seg.departure.iataCode,
-      departureTerminal: seg.departure.terminal,
-      departureTime: seg.departure.at,
-      arrivalAirport: seg.arrival.iataCode,
-      arrivalTerminal: seg.arrival.terminal,
-      arrivalTime: seg.arrival.at,
-      carrierCode: seg.carrierCode,
-      carrierName: this.getAirlineName(seg.carrierCode),
-      flightNumber: `${seg.carrierCode}${seg.number}`,
-      aircraft: seg.aircraft?.code,
-      duration: this.parseDiurationISO8601(seg.duration || 'PT0M'),
-      cabin: cabin ? this.mapCabin(cabin) : undefined,
-    }));
+  /**
+   * Price breakdown from price and travelerPricings
+   * Amadeus' grandTotal is base + taxes + fees; bags beyond the fare's
+   * allowance are priced from the CHECKED_BAGS additional service, which is
+   * per bag and traveler
+   */
+  private buildPricing(rawFlight: any, fare: FareDetails | undefined, checkedBags: number): FlightPricing {
+    const total = parseFloat(rawFlight.price.grandTotal);
+    const base = parseFloat(rawFlight.price.base);
+    const fees = (rawFlight.price.fees || []).reduce((sum: number, fee: any) => sum + parseFloat(fee.amount || '0'), 0);
+
+    const byType = new Map<PassengerType, PassengerTypePrice>();
+    for (const traveler of rawFlight.travelerPricings || []) {
+      const type = this.mapTravelerType(traveler.travelerType);
+      const amount = parseFloat(traveler.price.total);
+      const entry = byType.get(type) || { type, count: 0, perPassenger: amount, total: 0 };
+      entry.count++;
+      entry.total = Math.round((entry.total + amount) * 100) / 100;
+      byType.set(type, entry);
+    }
+    const byPassengerType = Array.from(byType.values());
+    const travelers = byPassengerType.reduce((sum, entry) => sum + entry.count, 0);
+
+    return {
+      total,
+      base,
+      taxes: Math.round((total - base - fees) * 100) / 100,
+      fees,
+      perAdult: byType.get('ADT')?.perPassenger ?? Math.round((total / Math.max(travelers, 1)) * 100) / 100,
+      byPassengerType,
+      totalWithBags: this.priceWithBags(rawFlight, fare, checkedBags, total, travelers - (byType.get('INF')?.count ?? 0)),
+    };
+  }
+
+  private priceWithBags(
+    rawFlight: any,
+    fare: FareDetails | undefined,
+    checkedBags: number,
+    total: number,
+    bagTravelers: number,
+  ): FlightPricing['totalWithBags'] {
+    const included = fare?.checkedBags?.quantity;
+    if (included === undefined) {
+      return undefined;
+    }
+
+    const extraBags = Math.max(0, checkedBags - included);
+    if (extraBags === 0) {
+      return { checkedBags, total };
+    }
+
+    const bagService = (rawFlight.price.additionalServices || []).find((service: any) => service.type === 'CHECKED_BAGS');
+    if (!bagService) {
+      return undefined;
+    }
+
+    const bagsTotal = parseFloat(bagService.amount) * extraBags * bagTravelers;
+    return { checkedBags, total: Math.round((total + bagsTotal) * 100) / 100 };
+  }
+
+  /**
+   * Map Amadeus traveler types to passenger types
+   * Seniors, students and young travelers pay adult-type fares
+   */
+  private mapTravelerType(travelerType: string): PassengerType {
+    switch (travelerType) {
+      case 'CHILD':
+        return 'CHD';
+      case 'HELD_INFANT':
+      case 'SEATED_INFANT':
+        return 'INF';
+      default:
+        return 'ADT';
+    }
+  }
+
+  private buildItinerary(
+    itin: any,
+    direction: 'outbound' | 'inbound',
+    cabin: string | undefined,
+    segmentFares: Map<string, { cabin?: string; fare: SegmentFare }>,
+  ): FlightItinerary {
+    const segments: FlightSegmentDetail[] = itin.segments.map((seg: any) => {
+      const carrier = this.airlinesService.getCarrierInfo(seg.carrierCode);
+      const segmentFare = segmentFares.get(seg.id);
+
+      return {
+        departureAirport: seg.departure.iataCode,
+        departureTerminal: seg.departure.terminal,
+        departureTime: seg.departure.at,
+        arrivalAirport: seg.arrival.iataCode,
+        arrivalTerminal: seg.arrival.terminal,
+        arrivalTime: seg.arrival.at,
+        carrierCode: seg.carrierCode,
+        carrierName: carrier.name,
+        alliance: carrier.alliance,
+        logoUrl: carrier.logoUrl,
+        flightNumber: `${seg.carrierCode}${seg.number}`,
+        aircraft: seg.aircraft?.code,
+        duration: this.parseDiurationISO8601(seg.duration || 'PT0M'),
+        // The fare's cabin is what was actually sold; the requested one is only a preference
+        cabin: segmentFare?.cabin ?? (cabin ? this.mapCabin(cabin) : undefined),
+        fare: segmentFare?.fare,
+      };
+    });
 
     return {
       direction,
@@ -273,6 +562,92 @@ export class AmadeusProvider extends BaseFlightProvider {
     };
   }
 
+  /**
+   * Fare details per segment id, from travelerPricings
+   * Every traveler of a type has the same fare, so the first adult's is used
+   */
+  private buildSegmentFares(rawFlight: any): Map<string, { cabin?: string; fare: SegmentFare }> {
+    const pricings: any[] = rawFlight.travelerPricings || [];
+    const pricing = pricings.find((tp) => tp.travelerType === 'ADULT') || pricings[0];
+    const fares = new Map<string, { cabin?: string; fare: SegmentFare }>();
+
+    for (const detail of pricing?.fareDetailsBySegment || []) {
+      fares.set(detail.segmentId, {
+        cabin: detail.cabin,
+        fare: {
+          fareBasis: detail.fareBasis,
+          brand: detail.brandedFareLabel || detail.brandedFare,
+          bookingClass: detail.class,
+          checkedBags: this.toAllowance(detail.includedCheckedBags),
+          cabinBags: this.toAllowance(detail.includedCabinBags),
+          amenities: detail.amenities?.map((amenity: any) => ({
+            description: amenity.description,
+            type: amenity.amenityType,
+            chargeable: !!amenity.isChargeable,
+          })),
+        },
+      });
+    }
+
+    return fares;
+  }
+
+  /**
+   * Flight-level fare conditions from the segment fares
+   * Refundability and changes are only reported as branded-fare amenities
+   * (e.g. "REFUNDABLE TICKET"), unless refundable fares were requested
+   */
+  private buildFareDetails(rawFlight: any, segments: FlightSegmentDetail[]): FareDetails | undefined {
+    const fares = segments.map((seg) => seg.fare);
+    if (fares.length === 0 || fares.some((fare) => !fare)) {
+      return undefined;
+    }
+
+    const segmentFares = fares as SegmentFare[];
+
+    return {
+      brand: segmentFares[0].brand,
+      checkedBags: this.smallestAllowance(segmentFares.map((fare) => fare.checkedBags)),
+      cabinBags: this.smallestAllowance(segmentFares.map((fare) => fare.cabinBags)),
+      refundable: rawFlight.pricingOptions?.refundableFare ? true : this.isAmenityFree(segmentFares, /REFUND/i),
+      changeable: this.isAmenityFree(segmentFares, /CHANGE/i),
+    };
+  }
+
+  private toAllowance(bags: any): BaggageAllowance | undefined {
+    if (!bags) {
+      return undefined;
+    }
+
+    const weight = bags.weight === undefined ? undefined : bags.weightUnit === 'LB' ? Math.round(bags.weight * 0.4536) : bags.weight;
+    return { quantity: bags.quantity, weightKg: weight };
+  }
+
+  /**
+   * The allowance every segment includes, or undefined if any segment doesn't say
+   */
+  private smallestAllowance(allowances: (BaggageAllowance | undefined)[]): BaggageAllowance | undefined {
+    if (allowances.some((allowance) => !allowance)) {
+      return undefined;
+    }
+
+    const known = allowances as BaggageAllowance[];
+    const byQuantity = known.every((allowance) => allowance.quantity !== undefined);
+    return known.reduce((smallest, allowance) =>
+      byQuantity
+        ? allowance.quantity! < smallest.quantity! ? allowance : smallest
+        : (allowance.weightKg ?? 0) < (smallest.weightKg ?? 0) ? allowance : smallest,
+    );
+  }
+
+  /**
+   * Whether every amenity matching the pattern is free, or undefined if none is listed
+   */
+  private isAmenityFree(fares: SegmentFare[], pattern: RegExp): boolean | undefined {
+    const matching = fares.flatMap((fare) => fare.amenities || []).filter((amenity) => pattern.test(amenity.description));
+    return matching.length > 0 ? matching.every((amenity) => !amenity.chargeable) : undefined;
+  }
+
   /**
    * Parse ISO8601 duration format
    * Example: PT10H30M -> 630 minutes
@@ -313,24 +688,4 @@ export class AmadeusProvider extends BaseFlightProvider {
       };
     });
   }
-
-  /**
-   * Get human-readable airline name from carrier code
-   * In production, use an airline database
-   */
-  private getAirlineName(carrierCode: string): string {
-    const airlineMap: Record<string, string> = {
-      AA: 'American Airlines',
-      UA: 'United Airlines',
-      DL: 'Delta Air Lines',
-      SW: 'Southwest Airlines',
-      BA: 'British Airways',
-      LH: 'Lufthansa',
-      AF: 'Air France',
-      KL: 'KLM',
-      QF: 'Qantas',
-      EK: 'Emirates',
-    };
-    return airlineMap[carrierCode] || carrierCode;
-  }
 }
@@ -1,4 +1,11 @@
-import { FlightSearchParams, NormalizedFlight } from '../common/types';
+import {
+  CheapestDateFare,
+  CheapestDatesRequest,
+  FlightSearchParams,
+  NormalizedFlight,
+  ProviderPriceQuote,
+} from '../common/types';
+import { ProviderConfig } from './provider.config';
 
 /**
  * Interface that all flight providers must implement
@@ -18,11 +25,29 @@ export interface IFlightProvider {
    * Check if provider is available/healthy
    */
   isHealthy(): Promise<boolean>;
+
+  /**
+   * Check if provider has the credentials it needs to be enabled
+   */
+  isConfigured(): boolean;
   
   /**
    * Validate if provider can handle the search
    */
   canHandle(params: FlightSearchParams): boolean;
+
+  /**
+   * Optional: cheapest known fare per departure date for a route
+   * Implemented by providers that offer a cheapest-dates API
+   */
+  findCheapestDates?(request: CheapestDatesRequest): Promise<CheapestDateFare[]>;
+
+  /**
+   * Optional: re-price an offer right before booking
+   * @param rawOffer The provider's offer as kept in NormalizedFlight.rawOffer
+   * @param params The search the offer came from
+   */
+  confirmPrice?(rawOffer: unknown, params: FlightSearchParams): Promise<ProviderPriceQuote>;
 }
 
 /**
@@ -33,11 +58,14 @@ export abstract class BaseFlightProvider implements IFlightProvider {
   abstract name: string;
   protected apiKey: string;
   protected apiSecret?: string;
-  protected baseUrl: string = '';
+  protected baseUrl: string;
+  protected timeoutMs: number;
 
-  constructor(apiKey: string, apiSecret?: string) {
-    this.apiKey = apiKey;
-    this.apiSecret = apiSecret;
+  constructor(config: ProviderConfig) {
+    this.apiKey = config.apiKey || '';
+    this.apiSecret = config.apiSecret;
+    this.baseUrl = config.baseUrl || '';
+    this.timeoutMs = config.timeoutMs;
   }
 
   abstract search(params: FlightSearchParams): Promise<NormalizedFlight[]>;
@@ -47,6 +75,11 @@ export abstract class BaseFlightProvider implements IFlightProvider {
     return !!this.apiKey;
   }
 
+  isConfigured(): boolean {
+    // Override in subclass if more credentials are needed
+    return !!this.apiKey;
+  }
+
   canHandle(params: FlightSearchParams): boolean {
     // Override in subclass for specific limitations
     // e.g., Amadeus might not support certain airports
@@ -1,33 +1,49 @@
+import { Inject, Injectable } from '@nestjs/common';
 import { BaseFlightProvider } from './base.provider';
-import { FlightSearchParams, NormalizedFlight, FlightItinerary } from '../common/types';
+import { PROVIDERS_CONFIG, ProvidersConfig } from './provider.config';
+import { AirlinesService } from '../airlines/airlines.service';
+import { AffiliateLinksService } from '../affiliate/affiliate-links.service';
+import { getReturnRoute } from '../common/trip.utils';
+import {
+  FlightItinerary,
+  FlightPricing,
+  FlightSearchParams,
+  NormalizedFlight,
+  PassengerBreakdown,
+  PassengerTypePrice,
+} from '../common/types';
 
 /**
  * Demo Provider - Returns mock flights for testing
  * No API keys required, useful for testing UI/ranking/filtering
  */
+@Injectable()
 export class DemoProvider extends BaseFlightProvider {
   name = 'demo';
 
-  constructor() {
-    super('demo', 'demo');
+  constructor(
+    @Inject(PROVIDERS_CONFIG) config: ProvidersConfig,
+    private airlinesService: AirlinesService,
+    private affiliateLinks: AffiliateLinksService,
+  ) {
+    super(config.demo);
   }
 
   async search(params: FlightSearchParams): Promise<NormalizedFlight[]> {
     console.log('[DEMO] Generating mock flights for', params.from, '->', params.to);
 
-    const totalPassengers = params.passengerBreakdown
-      ? (params.passengerBreakdown.adults + params.passengerBreakdown.children + params.passengerBreakdown.infants)
-      : (params.passengers ?? 1);
+    const passengers = params.passengerBreakdown || { adults: params.passengers ?? 1, children: 0, infants: 0 };
+    const checkedBags = params.checkedBags ?? 1;
 
     const cabin = params.cabin ? this.mapCabinLabel(params.cabin) : 'Economy';
     const isRoundTrip = params.tripType === 'round-trip' && params.returnDate;
 
     const flightConfigs = [
-      { id: 'demo_1', code: 'DL', name: 'Delta Air Lines', depH: '08:00', arrH: '11:30', dur: 210, stops: 0, price: 450, flightNum: 'DL402', aircraft: '767' },
-      { id: 'demo_2', code: 'UA', name: 'United Airlines', depH: '10:15', arrH: '14:30', dur: 255, stops: 1, price: 380, flightNum: 'UA891', aircraft: '777', stopAirport: 'ORD', stopDep: '12:00', stopArr: '11:30' },
-      { id: 'demo_3', code: 'AA', name: 'American Airlines', depH: '12:45', arrH: '16:00', dur: 195, stops: 0, price: 520, flightNum: 'AA245', aircraft: 'A321' },
-      { id: 'demo_4', code: 'SW', name: 'Southwest Airlines', depH: '14:30', arrH: '18:45', dur: 255, stops: 1, price: 340, flightNum: 'SW1832', aircraft: '737', stopAirport: 'DFW', stopDep: '16:15', stopArr: '15:45' },
-      { id: 'demo_5', code: 'B6', name: 'JetBlue Airways', depH: '07:00', arrH: '10:30', dur: 210, stops: 0, price: 480, flightNum: 'B6517', aircraft: 'A220' },
+      { id: 'demo_1', code: 'DL', name: 'Delta Air Lines', depH: '08:00', arrH: '11:30', dur: 210, stops: 0, price: 450, flightNum: 'DL402', aircraft: '767', seats: 9, bags: 1, refundable: false },
+      { id: 'demo_2', code: 'UA', name: 'United Airlines', depH: '10:15', arrH: '14:30', dur: 255, stops: 1, price: 380, flightNum: 'UA891', aircraft: '777', seats: 3, bags: 0, refundable: false, stopAirport: 'ORD', stopDep: '12:00', stopArr: '11:30' },
+      { id: 'demo_3', code: 'AA', name: 'American Airlines', depH: '12:45', arrH: '16:00', dur: 195, stops: 0, price: 520, flightNum: 'AA245', aircraft: 'A321', seats: 7, bags: 1, refundable: true },
+      { id: 'demo_4', code: 'WN', name: 'Southwest Airlines', depH: '14:30', arrH: '18:45', dur: 255, stops: 1, price: 340, flightNum: 'WN1832', aircraft: '737', seats: 2, bags: 2, refundable: true, stopAirport: 'DFW', stopDep: '16:15', stopArr: '15:45' },
+      { id: 'demo_5', code: 'B6', name: 'JetBlue Airways', depH: '07:00', arrH: '10:30', dur: 210, stops: 0, price: 480, flightNum: 'B6517', aircraft: 'A220', seats: 5, bags: 0, refundable: false },
     ];
 
     const mockFlights: NormalizedFlight[] = flightConfigs.map((cfg) => {
@@ -42,6 +58,8 @@ export class DemoProvider extends BaseFlightProvider {
       );
 
       const itineraries: FlightItinerary[] = [outbound];
+      const carrier = this.airlinesService.getCarrierInfo(cfg.code);
+      const pricing = this.buildMockPricing(cfg.price, passengers, cfg.bags, checkedBags);
 
       // Build inbound itinerary for round-trip
       if (isRoundTrip && params.returnDate) {
@@ -52,8 +70,10 @@ export class DemoProvider extends BaseFlightProvider {
         const retArrH = this.minutesToTime(retArrMinutes);
         const retFlightNum = cfg.code + String(parseInt(cfg.flightNum.replace(/\D/g, '')) + 1);
 
+        // Open jaws return from/to different airports
+        const returnRoute = getReturnRoute(params);
         const inbound = this.buildMockItinerary(
-          'inbound', params.to, params.from, params.returnDate,
+          'inbound', returnRoute.from, returnRoute.to, params.returnDate,
           retDepH, retArrH, retDur, cfg.stops, cfg.code, cfg.name, retFlightNum, cfg.aircraft, cabin,
           cfg.stopAirport,
           cfg.stops > 0 ? this.offsetTime(retDepH, 1.5) : undefined,
@@ -67,6 +87,8 @@ export class DemoProvider extends BaseFlightProvider {
         provider: 'demo',
         airline: cfg.name,
         airlineCode: cfg.code,
+        alliance: carrier.alliance,
+        logoUrl: carrier.logoUrl,
         departureTime: depTime,
         arrivalTime: arrTime,
         departureAirport: params.from,
@@ -74,14 +96,20 @@ export class DemoProvider extends BaseFlightProvider {
         duration: cfg.dur,
         stops: cfg.stops,
         itineraries,
-        price: cfg.price * totalPassengers,
+        price: pricing.total,
         currency: 'USD',
+        pricing,
+        fare: {
+          checkedBags: { quantity: cfg.bags },
+          cabinBags: { quantity: 1 },
+          refundable: cfg.refundable,
+          changeable: cfg.refundable,
+        },
+        seatsLeft: cfg.seats,
         tripType: params.tripType,
         departureDate: params.departDate,
         returnDate: params.returnDate,
-        bookingUrl: `https://www.${cfg.name.toLowerCase().replace(/\s/g, '')}.com/book?from=${params.from}&to=${params.to}&date=${params.departDate}`,
-        rankingScore: 0,
-        scoreBreakdown: { priceScore: 0, durationScore: 0, stopsScore: 0, totalScore: 0 },
+        bookingUrl: this.affiliateLinks.buildBookingUrl({ provider: this.name, airlineCode: cfg.code, offerRef: cfg.id, params }),
       };
     });
 
@@ -99,6 +127,8 @@ export class DemoProvider extends BaseFlightProvider {
     code: string, name: string, flightNum: string, aircraft: string, cabin: string,
     stopAirport?: string, stopDepH?: string, stopArrH?: string,
   ): FlightItinerary {
+    const { alliance, logoUrl } = this.airlinesService.getCarrierInfo(code);
+
     if (stops === 0 || !stopAirport) {
       return {
         direction,
@@ -111,6 +141,8 @@ export class DemoProvider extends BaseFlightProvider {
           arrivalTime: new Date(date + `T${arrH}:00Z`).toISOString(),
           carrierCode: code,
           carrierName: name,
+          alliance,
+          logoUrl,
           flightNumber: flightNum,
           aircraft,
           duration: totalDur,
@@ -137,6 +169,8 @@ export class DemoProvider extends BaseFlightProvider {
           arrivalTime: new Date(date + `T${seg1Arr}:00Z`).toISOString(),
           carrierCode: code,
           carrierName: name,
+          alliance,
+          logoUrl,
           flightNumber: flightNum,
           aircraft,
           duration: Math.max(seg1Dur, 60),
@@ -149,6 +183,8 @@ export class DemoProvider extends BaseFlightProvider {
           arrivalTime: new Date(date + `T${arrH}:00Z`).toISOString(),
           carrierCode: code,
           carrierName: name,
+          alliance,
+          logoUrl,
           flightNumber: code + String(parseInt(flightNum.replace(/\D/g, '')) + 100),
           aircraft,
           duration: Math.max(seg2Dur, 60),
@@ -158,6 +194,40 @@ export class DemoProvider extends BaseFlightProvider {
     };
   }
 
+  /**
+   * Everyone pays the per-person fare (infants 10% of it), 80% base and 20% taxes
+   * Checked bags beyond the included ones cost $35 each per non-infant passenger
+   */
+  private buildMockPricing(
+    perPerson: number,
+    passengers: PassengerBreakdown,
+    includedBags: number,
+    checkedBags: number,
+  ): FlightPricing {
+    const infantFare = Math.round(perPerson * 0.1);
+    const byPassengerType: PassengerTypePrice[] = [
+      { type: 'ADT' as const, count: passengers.adults, perPassenger: perPerson },
+      { type: 'CHD' as const, count: passengers.children, perPassenger: perPerson },
+      { type: 'INF' as const, count: passengers.infants, perPassenger: infantFare },
+    ]
+      .filter((entry) => entry.count > 0)
+      .map((entry) => ({ ...entry, total: entry.count * entry.perPassenger }));
+
+    const total = byPassengerType.reduce((sum, entry) => sum + entry.total, 0);
+    const base = Math.round(total * 0.8);
+    const extraBags = Math.max(0, checkedBags - includedBags);
+
+    return {
+      total,
+      base,
+      taxes: total - base,
+      fees: 0,
+      perAdult: perPerson,
+      byPassengerType,
+      totalWithBags: { checkedBags, total: total + extraBags * 35 * (passengers.adults + passengers.children) },
+    };
+  }
+
   private mapCabinLabel(cabin: string): string {
     const map: Record<string, string> = {
       economy: 'Economy',
@@ -188,10 +258,15 @@ export class DemoProvider extends BaseFlightProvider {
     return true;
   }
 
-  canHandle(params: FlightSearchParams): boolean {
+  isConfigured(): boolean {
     return true;
   }
 
+  canHandle(params: FlightSearchParams): boolean {
+    // Mock data only covers a single origin/destination pair
+    return params.tripType !== 'multi-city';
+  }
+
   protected normalize(rawFlight: any, params: FlightSearchParams): NormalizedFlight {
     return rawFlight;
   }
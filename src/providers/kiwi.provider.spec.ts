@@ -0,0 +1,127 @@
+import { KiwiProvider } from './kiwi.provider';
+import { ProvidersConfig } from './provider.config';
+import { AirlinesService } from '../airlines/airlines.service';
+import { AffiliateLinksService } from '../affiliate/affiliate-links.service';
+import { FlightSearchParams } from '../common/types';
+
+// Kiwi times are seconds since the epoch
+const at = (iso: string) => Date.parse(iso) / 1000;
+
+function route(flyFrom: string, flyTo: string, departure: string, arrival: string, flightNo: number, inbound = false) {
+  return {
+    flyFrom,
+    flyTo,
+    local_departure: at(departure),
+    local_arrival: at(arrival),
+    airline: 'BA',
+    flight_no: flightNo,
+    fare_basis: 'QLOWGB',
+    fare_classes: 'Q',
+    return: inbound ? 1 : 0,
+  };
+}
+
+describe('KiwiProvider', () => {
+  let provider: KiwiProvider;
+  let get: jest.SpyInstance;
+
+  const roundTrip: FlightSearchParams = {
+    from: 'LHR',
+    to: 'JFK',
+    departDate: '2099-06-01',
+    returnDate: '2099-06-10',
+    tripType: 'round-trip',
+    passengerBreakdown: { adults: 2, children: 1, infants: 0 },
+    checkedBags: 1,
+  };
+
+  const rawFlight = {
+    id: 'abc',
+    booking_token: 'token-1',
+    price: 1500,
+    currency: 'EUR',
+    fare: { adults: 550, children: 400, infants: 0 },
+    bags_price: { '1': 40, '2': 90 },
+    baglimit: { hand_weight: 8, hold_weight: 23 },
+    availability: { seats: 3 },
+    route: [
+      route('LHR', 'DUB', '2099-06-01T08:00:00Z', '2099-06-01T09:15:00Z', 830),
+      route('DUB', 'JFK', '2099-06-01T11:00:00Z', '2099-06-01T19:00:00Z', 6123),
+      route('JFK', 'LHR', '2099-06-10T18:00:00Z', '2099-06-11T06:00:00Z', 112, true),
+    ],
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const config = {
+      kiwi: { name: 'kiwi', enabled: true, apiKey: 'key', baseUrl: 'https://kiwi.test', timeoutMs: 1000 },
+    } as ProvidersConfig;
+    provider = new KiwiProvider(config, new AirlinesService(), new AffiliateLinksService());
+    get = jest.spyOn(provider['httpClient'], 'get').mockResolvedValue({ status: 200, data: { data: [rawFlight] } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('asks for the exact return date on round trips', async () => {
+    await provider.search(roundTrip);
+
+    expect(get.mock.calls[0][1].params).toMatchObject({
+      fly_from: 'LHR',
+      fly_to: 'JFK',
+      date_from: '2099-06-01',
+      return_from: '2099-06-10',
+      return_to: '2099-06-10',
+      adults: 2,
+      children: 1,
+    });
+  });
+
+  it('splits a round trip into outbound and inbound itineraries', async () => {
+    const [flight] = await provider.search(roundTrip);
+
+    expect(flight.itineraries!.map((itin) => [itin.direction, itin.stops, itin.segments.map((s) => s.flightNumber)])).toEqual([
+      ['outbound', 1, ['BA830', 'BA6123']],
+      ['inbound', 0, ['BA112']],
+    ]);
+    // Top-level fields describe the outbound leg
+    expect(flight).toMatchObject({
+      departureTime: '2099-06-01T08:00:00.000Z',
+      arrivalTime: '2099-06-01T19:00:00.000Z',
+      duration: 660,
+      stops: 1,
+      stopDetails: [{ airport: 'DUB', duration: 105 }],
+    });
+  });
+
+  it('prices each passenger type and the requested checked bags', async () => {
+    const [flight] = await provider.search(roundTrip);
+
+    expect(flight.pricing).toEqual({
+      total: 1500,
+      perAdult: 550,
+      byPassengerType: [
+        { type: 'ADT', count: 2, perPassenger: 550, total: 1100 },
+        { type: 'CHD', count: 1, perPassenger: 400, total: 400 },
+      ],
+      totalWithBags: { checkedBags: 1, total: 1620 },
+    });
+    expect(flight.fare).toMatchObject({ checkedBags: { quantity: 0 }, checkedBagPrice: { amount: 40, currency: 'EUR' } });
+    expect(flight.seatsLeft).toBe(3);
+  });
+
+  it('books on Kiwi with the booking token', async () => {
+    const [flight] = await provider.search(roundTrip);
+
+    expect(flight.id).toBe('kiwi_abc');
+    expect(new URL(flight.bookingUrl).hostname).toContain('kiwi.com');
+    expect(flight.bookingUrl).toContain('token-1');
+  });
+
+  it('leaves multi-city and open-jaw trips to other providers', () => {
+    expect(provider.canHandle(roundTrip)).toBe(true);
+    expect(provider.canHandle({ ...roundTrip, returnFrom: 'EWR' })).toBe(false);
+    expect(provider.canHandle({ ...roundTrip, tripType: 'multi-city' })).toBe(false);
+  });
+});
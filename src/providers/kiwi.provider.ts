@@ -1,24 +1,33 @@
+import { Inject, Injectable } from '@nestjs/common';
 import axios, { Axios } from 'axios';
 import { BaseFlightProvider } from './base.provider';
-import { FlightSearchParams, NormalizedFlight, FlightItinerary, FlightSegmentDetail } from '../common/types';
+import { PROVIDERS_CONFIG, ProvidersConfig } from './provider.config';
+import { AirlinesService } from '../airlines/airlines.service';
+import { AffiliateLinksService } from '../affiliate/affiliate-links.service';
+import { isOpenJaw } from '../common/trip.utils';
+import { FareDetails, FlightPricing, PassengerTypePrice, FlightSearchParams, NormalizedFlight, FlightItinerary, FlightSegmentDetail } from '../common/types';
 
 /**
  * Kiwi.com API Provider Implementation
  * Used both for search and as primary affiliate/redirect endpoint
  * Reference: https://docs.kiwi.com/
  */
+@Injectable()
 export class KiwiProvider extends BaseFlightProvider {
   name = 'kiwi';
-  protected baseUrl = 'https://api.kiwi.com/v2';
   private httpClient: Axios;
 
-  constructor(apiKey: string) {
-    super(apiKey);
+  constructor(
+    @Inject(PROVIDERS_CONFIG) config: ProvidersConfig,
+    private airlinesService: AirlinesService,
+    private affiliateLinks: AffiliateLinksService,
+  ) {
+    super(config.kiwi);
     this.httpClient = axios.create({
       baseURL: this.baseUrl,
-      timeout: 10000,
+      timeout: this.timeoutMs,
       headers: {
-        'apikey': apiKey,
+        'apikey': this.apiKey,
       },
     });
   }
@@ -56,12 +65,15 @@ export class KiwiProvider extends BaseFlightProvider {
   }
 
   canHandle(params: FlightSearchParams): boolean {
-    // Kiwi supports most routes globally
-    return true;
+    // Kiwi supports most routes globally, but multi-city and open-jaw trips
+    // need the separate /flights_multi endpoint which we don't integrate yet
+    return params.tripType !== 'multi-city' && !isOpenJaw(params);
   }
 
   /**
    * Build Kiwi-specific query parameters
+   * maxPrice isn't sent (price_to): the aggregator applies it on the
+   * requested price basis, and cached results are shared between limits
    */
   private buildSearchParams(params: FlightSearchParams): Record<string, any> {
     const searchParams: Record<string, any> = {
@@ -75,6 +87,7 @@ export class KiwiProvider extends BaseFlightProvider {
       limit: 50,
       sort: 'price', // Sort by price
       asc: 1, // Ascending order (cheapest first)
+      curr: params.currency || 'USD',
       v: 3, // API version
     };
 
@@ -83,10 +96,6 @@ export class KiwiProvider extends BaseFlightProvider {
       searchParams.return_to = params.returnDate;
     }
 
-    if (params.maxPrice) {
-      searchParams.price_to = params.maxPrice;
-    }
-
     if (params.cabin === 'business') {
       searchParams.seat_class = 'business';
     }
@@ -99,54 +108,47 @@ export class KiwiProvider extends BaseFlightProvider {
    * Kiwi returns flights with route segments
    */
   protected normalize(rawFlight: any, params: FlightSearchParams): NormalizedFlight {
-    // Kiwi returns routes which contain multiple flight segments
+    // Kiwi returns both directions in one route; `return` is 1 on inbound segments
     const routes = rawFlight.route || [];
-    const firstRoute = routes[0];
-    const lastRoute = routes[routes.length - 1];
-
-    const departureTime = new Date(firstRoute.local_departure * 1000).toISOString();
-    const arrivalTime = new Date(lastRoute.local_arrival * 1000).toISOString();
+    const outboundRoutes = routes.filter((route: any) => !route.return);
+    const inboundRoutes = routes.filter((route: any) => route.return);
+    const firstRoute = outboundRoutes[0];
 
-    // Calculate stops (number of segments - 1)
-    const stops = routes.length - 1;
-
-    // Duration in minutes
-    const duration = Math.round((lastRoute.local_arrival - firstRoute.local_departure) / 60);
+    const outbound = this.buildItinerary('outbound', outboundRoutes);
+    const itineraries: FlightItinerary[] = inboundRoutes.length > 0
+      ? [outbound, this.buildItinerary('inbound', inboundRoutes)]
+      : [outbound];
 
     // Deep link for booking (this is Kiwi's native booking)
-    const bookingUrl = `https://www.kiwi.com/us/search/results/${params.from}/${params.to}/${params.departDate}${params.returnDate ? '/' + params.returnDate : ''}?passengers=${params.passengers}&affiliateId=${process.env.KIWI_AFFILIATE_ID || 'findmyflight'}&flightId=${rawFlight.id}`;
-
-    // Build itineraries from Kiwi route segments
-    const itineraries: FlightItinerary[] = [{
-      direction: 'outbound',
-      duration,
-      stops,
-      segments: routes.map((route: any) => ({
-        departureAirport: route.flyFrom,
-        departureTime: new Date(route.local_departure * 1000).toISOString(),
-        arrivalAirport: route.flyTo,
-        arrivalTime: new Date(route.local_arrival * 1000).toISOString(),
-        carrierCode: route.airline,
-        carrierName: this.getAirlineName(route.airline),
-        flightNumber: `${route.airline}${route.flight_no}`,
-        duration: Math.round((route.local_arrival - route.local_departure) / 60),
-      })),
-    }];
+    const bookingUrl = this.affiliateLinks.buildBookingUrl({
+      provider: this.name,
+      airlineCode: firstRoute.airline,
+      offerRef: rawFlight.booking_token || rawFlight.id,
+      params,
+    });
+
+    const carrier = this.airlinesService.getCarrierInfo(firstRoute.airline);
 
     return {
       id: `kiwi_${rawFlight.id}`,
       provider: this.name,
-      airline: this.getAirlineName(firstRoute.airline),
+      airline: carrier.name,
       airlineCode: firstRoute.airline,
-      departureTime: departureTime,
-      arrivalTime: arrivalTime,
-      duration: duration,
-      stops: stops,
-      stopDetails: this.buildStopDetails(routes),
+      alliance: carrier.alliance,
+      logoUrl: carrier.logoUrl,
+      // Top-level times, duration and stops describe the outbound leg, as for other providers
+      departureTime: outbound.segments[0].departureTime,
+      arrivalTime: outbound.segments[outbound.segments.length - 1].arrivalTime,
+      duration: outbound.duration,
+      stops: outbound.stops,
+      stopDetails: this.buildStopDetails(outboundRoutes),
       itineraries,
       price: rawFlight.price,
       currency: rawFlight.currency || 'USD',
       bookingUrl: bookingUrl,
+      pricing: this.buildPricing(rawFlight, params),
+      fare: this.buildFareDetails(rawFlight),
+      seatsLeft: rawFlight.availability?.seats ?? undefined,
       tripType: params.tripType,
       departureAirport: params.from,
       arrivalAirport: params.to,
@@ -155,6 +157,93 @@ export class KiwiProvider extends BaseFlightProvider {
     };
   }
 
+  /**
+   * Price breakdown from `fare` (per passenger of each type) and bags_price
+   * (per passenger, by number of checked bags); Kiwi doesn't split out taxes
+   */
+  private buildPricing(rawFlight: any, params: FlightSearchParams): FlightPricing {
+    const adults = params.passengerBreakdown?.adults || (params.passengers || 1);
+    const children = params.passengerBreakdown?.children || 0;
+    const infants = params.passengerBreakdown?.infants || 0;
+    const fare = rawFlight.fare || {};
+    const checkedBags = params.checkedBags ?? 1;
+
+    const byPassengerType: PassengerTypePrice[] = [];
+    const add = (type: PassengerTypePrice['type'], count: number, perPassenger?: number) => {
+      if (count > 0 && perPassenger !== undefined) {
+        byPassengerType.push({ type, count, perPassenger, total: Math.round(perPassenger * count * 100) / 100 });
+      }
+    };
+    add('ADT', adults, fare.adults);
+    add('CHD', children, fare.children);
+    add('INF', infants, fare.infants);
+
+    const bagPrice: number | undefined = checkedBags === 0 ? 0 : rawFlight.bags_price?.[String(checkedBags)];
+
+    return {
+      total: rawFlight.price,
+      perAdult: fare.adults ?? Math.round((rawFlight.price / (adults + children + infants)) * 100) / 100,
+      byPassengerType: byPassengerType.length > 0 ? byPassengerType : undefined,
+      totalWithBags: bagPrice === undefined
+        ? undefined
+        : { checkedBags, total: Math.round((rawFlight.price + bagPrice * (adults + children)) * 100) / 100 },
+    };
+  }
+
+  /**
+   * Baggage from bags_price (price per number of checked bags) and baglimit
+   * Kiwi sells checked bags separately, so one is only included when it's free
+   */
+  private buildFareDetails(rawFlight: any): FareDetails {
+    const firstBagPrice: number | undefined = rawFlight.bags_price?.['1'];
+    const limits = rawFlight.baglimit || {};
+
+    let checkedBags: FareDetails['checkedBags'];
+    if (firstBagPrice !== undefined) {
+      checkedBags = firstBagPrice === 0 ? { quantity: 1, weightKg: limits.hold_weight } : { quantity: 0 };
+    }
+
+    return {
+      checkedBags,
+      cabinBags: { quantity: 1, weightKg: limits.hand_weight },
+      checkedBagPrice: firstBagPrice ? { amount: firstBagPrice, currency: rawFlight.currency || 'USD' } : undefined,
+    };
+  }
+
+  /**
+   * One direction of a trip from its route segments
+   */
+  private buildItinerary(direction: 'outbound' | 'inbound', routes: any[]): FlightItinerary {
+    const first = routes[0];
+    const last = routes[routes.length - 1];
+
+    return {
+      direction,
+      duration: Math.round((last.local_arrival - first.local_departure) / 60),
+      stops: routes.length - 1,
+      segments: routes.map((route: any): FlightSegmentDetail => {
+        const carrier = this.airlinesService.getCarrierInfo(route.airline);
+
+        return {
+          departureAirport: route.flyFrom,
+          departureTime: new Date(route.local_departure * 1000).toISOString(),
+          arrivalAirport: route.flyTo,
+          arrivalTime: new Date(route.local_arrival * 1000).toISOString(),
+          carrierCode: route.airline,
+          carrierName: carrier.name,
+          alliance: carrier.alliance,
+          logoUrl: carrier.logoUrl,
+          flightNumber: `${route.airline}${route.flight_no}`,
+          duration: Math.round((route.local_arrival - route.local_departure) / 60),
+          fare: {
+            fareBasis: route.fare_basis || undefined,
+            bookingClass: route.fare_classes || undefined,
+          },
+        };
+      }),
+    };
+  }
+
   /**
    * Build stop details from route segments
    */
@@ -171,23 +260,4 @@ export class KiwiProvider extends BaseFlightProvider {
       };
     });
   }
-
-  /**
-   * Get human-readable airline name
-   */
-  private getAirlineName(carrierCode: string): string {
-    const airlineMap: Record<string, string> = {
-      AA: 'American Airlines',
-      UA: 'United Airlines',
-      DL: 'Delta Air Lines',
-      SW: 'Southwest Airlines',
-      BA: 'British Airways',
-      LH: 'Lufthansa',
-      AF: 'Air France',
-      KL: 'KLM',
-      QF: 'Qantas',
-      EK: 'Emirates',
-    };
-    return airlineMap[carrierCode] || carrierCode;
-  }
 }
@@ -0,0 +1,143 @@
+import { plainToInstance, Type } from 'class-transformer';
+import { IsArray, IsBoolean, IsIn, IsInt, IsOptional, IsString, IsUrl, Min, ValidateNested, validateSync } from 'class-validator';
+import { Region } from '../common/types';
+
+const REGIONS: Region[] = ['AF', 'AN', 'AS', 'EU', 'NA', 'OC', 'SA'];
+
+/**
+ * Configuration for a single flight provider
+ */
+export class ProviderConfig {
+  @IsString()
+  name!: string;
+
+  @IsBoolean()
+  enabled!: boolean;
+
+  @IsOptional()
+  @IsString()
+  apiKey?: string;
+
+  @IsOptional()
+  @IsString()
+  apiSecret?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  baseUrl?: string;
+
+  @IsInt()
+  @Min(100)
+  timeoutMs!: number;
+
+  // How long this provider's search results are cached; 0 disables caching
+  @IsInt()
+  @Min(0)
+  cacheTtlSeconds!: number;
+
+  // Lower numbers are queried (and listed) first
+  @IsInt()
+  @Min(0)
+  priority!: number;
+
+  // Continents this provider is used for, e.g. ['EU', 'NA']; empty means global
+  // A route is in a region when either end (or any multi-city leg) is
+  @IsArray()
+  @IsIn(REGIONS, { each: true })
+  regions!: Region[];
+}
+
+/**
+ * Configuration for all known providers
+ */
+export class ProvidersConfig {
+  @ValidateNested()
+  @Type(() => ProviderConfig)
+  amadeus!: ProviderConfig;
+
+  @ValidateNested()
+  @Type(() => ProviderConfig)
+  kiwi!: ProviderConfig;
+
+  @ValidateNested()
+  @Type(() => ProviderConfig)
+  demo!: ProviderConfig;
+}
+
+/**
+ * Every provider's configuration, keyed by provider name
+ */
+export function getProviderConfigMap(config: ProvidersConfig): Map<string, ProviderConfig> {
+  return new Map([config.amadeus, config.kiwi, config.demo].map((providerConfig) => [providerConfig.name, providerConfig]));
+}
+
+/**
+ * Injection token for the validated providers configuration
+ */
+export const PROVIDERS_CONFIG = 'PROVIDERS_CONFIG';
+
+/**
+ * Build and validate the providers configuration from the environment
+ * For each provider NAME: NAME_ENABLED, NAME_API_KEY, NAME_API_SECRET,
+ * NAME_BASE_URL, NAME_TIMEOUT_MS, NAME_PRIORITY, NAME_REGIONS (comma-separated),
+ * NAME_CACHE_TTL_SECONDS
+ * Throws on invalid configuration so a bad deploy fails at startup
+ */
+export function loadProvidersConfig(env: NodeJS.ProcessEnv = process.env): ProvidersConfig {
+  const config = plainToInstance(ProvidersConfig, {
+    amadeus: readProviderConfig(env, 'amadeus', {
+      baseUrl: 'https://test.api.amadeus.com',
+      priority: 10,
+      cacheTtlSeconds: 900,
+      enabled: !!(env.AMADEUS_API_KEY && env.AMADEUS_API_SECRET),
+    }),
+    kiwi: readProviderConfig(env, 'kiwi', {
+      baseUrl: 'https://api.kiwi.com/v2',
+      priority: 20,
+      cacheTtlSeconds: 600,
+      // Kiwi stays off unless explicitly enabled
+      enabled: false,
+    }),
+    demo: readProviderConfig(env, 'demo', {
+      priority: 100,
+      cacheTtlSeconds: 60,
+      enabled: false,
+    }),
+  });
+
+  const errors = validateSync(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid provider configuration: ${errors.map((e) => e.toString()).join(', ')}`);
+  }
+
+  // Providers that talk to a real API can't be enabled without credentials
+  if (config.amadeus.enabled && !(config.amadeus.apiKey && config.amadeus.apiSecret)) {
+    throw new Error('Invalid provider configuration: AMADEUS_API_KEY and AMADEUS_API_SECRET are required when Amadeus is enabled');
+  }
+  if (config.kiwi.enabled && !config.kiwi.apiKey) {
+    throw new Error('Invalid provider configuration: KIWI_API_KEY is required when Kiwi is enabled');
+  }
+
+  return config;
+}
+
+function readProviderConfig(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  defaults: { baseUrl?: string; priority: number; cacheTtlSeconds: number; enabled: boolean },
+): Record<string, unknown> {
+  const prefix = name.toUpperCase();
+  const enabled = env[`${prefix}_ENABLED`];
+
+  return {
+    name,
+    enabled: enabled === undefined ? defaults.enabled : enabled === 'true',
+    apiKey: env[`${prefix}_API_KEY`],
+    apiSecret: env[`${prefix}_API_SECRET`],
+    baseUrl: env[`${prefix}_BASE_URL`] || defaults.baseUrl,
+    timeoutMs: parseInt(env[`${prefix}_TIMEOUT_MS`] || '10000'),
+    priority: parseInt(env[`${prefix}_PRIORITY`] || String(defaults.priority)),
+    cacheTtlSeconds: parseInt(env[`${prefix}_CACHE_TTL_SECONDS`] || String(defaults.cacheTtlSeconds)),
+    regions: (env[`${prefix}_REGIONS`] || '').split(',').map((r) => r.trim().toUpperCase()).filter(Boolean),
+  };
+}
@@ -0,0 +1,75 @@
+import { ProviderRegistry } from './provider.registry';
+import { IFlightProvider } from './base.provider';
+import { loadProvidersConfig } from './provider.config';
+import { ProviderPolicyService } from '../resilience/provider-policy.service';
+
+function provider(name: string): IFlightProvider {
+  return {
+    name,
+    search: async () => [],
+    isHealthy: async () => true,
+    isConfigured: () => true,
+    canHandle: () => true,
+  };
+}
+
+describe('ProviderRegistry', () => {
+  const providers = ['amadeus', 'kiwi', 'demo'].map(provider);
+  const policies = { getCircuitState: () => 'closed' } as unknown as ProviderPolicyService;
+  const createRegistry = (env: NodeJS.ProcessEnv) => new ProviderRegistry(providers, loadProvidersConfig(env), policies);
+  const names = (list: IFlightProvider[]) => list.map((p) => p.name);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds each provider from its own configuration, in priority order', () => {
+    const registry = createRegistry({ AMADEUS_API_KEY: 'key', AMADEUS_API_SECRET: 'secret', DEMO_ENABLED: 'true', DEMO_PRIORITY: '5' });
+
+    expect(names(registry.getEnabledProviders())).toEqual(['demo', 'amadeus']);
+    expect(registry.getCacheTtl('amadeus')).toBe(900);
+    expect(registry.isEnabled('kiwi')).toBe(false);
+  });
+
+  describe('regions', () => {
+    const env = {
+      AMADEUS_API_KEY: 'key',
+      AMADEUS_API_SECRET: 'secret',
+      KIWI_ENABLED: 'true',
+      KIWI_API_KEY: 'key',
+      KIWI_REGIONS: 'eu, AS',
+    };
+
+    it('uses regional providers only for routes touching one of their regions', () => {
+      const registry = createRegistry(env);
+
+      expect(names(registry.getEnabledProviders(['EU', 'NA']))).toEqual(['amadeus', 'kiwi']);
+      expect(names(registry.getEnabledProviders(['NA']))).toEqual(['amadeus']);
+    });
+
+    it('lists every enabled provider without route regions', () => {
+      expect(names(createRegistry(env).getEnabledProviders())).toEqual(['amadeus', 'kiwi']);
+    });
+
+    it('reports the configured regions', () => {
+      const kiwi = createRegistry(env).getProviderInfo().find((info) => info.name === 'kiwi');
+
+      expect(kiwi?.regions).toEqual(['EU', 'AS']);
+    });
+
+    it('rejects unknown region codes at startup', () => {
+      expect(() => loadProvidersConfig({ DEMO_REGIONS: 'EU,EMEA' })).toThrow('Invalid provider configuration');
+    });
+  });
+
+  it('refuses to enable a provider without credentials at runtime', () => {
+    const unconfigured = { ...provider('kiwi'), isConfigured: () => false };
+    const registry = new ProviderRegistry([unconfigured], loadProvidersConfig({}), policies);
+
+    expect(() => registry.setEnabled('kiwi', true)).toThrow('missing credentials');
+  });
+});
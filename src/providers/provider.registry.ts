@@ -0,0 +1,181 @@
+import { BadRequestException, Inject, Injectable, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { IFlightProvider } from './base.provider';
+import { getProviderConfigMap, PROVIDERS_CONFIG, ProviderConfig, ProvidersConfig } from './provider.config';
+import { ProviderPolicyService } from '../resilience/provider-policy.service';
+import { ProviderInfo, Region } from '../common/types';
+
+/**
+ * Injection token for the list of provider instances
+ */
+export const FLIGHT_PROVIDERS = 'FLIGHT_PROVIDERS';
+
+interface RegistryEntry {
+  provider: IFlightProvider;
+  config: ProviderConfig;
+  enabled: boolean;
+  lastHealthCheck: ProviderInfo['lastHealthCheck'];
+}
+
+/**
+ * Provider Registry
+ * Holds every known provider with its configuration and runtime state
+ * Providers can be enabled or disabled at runtime without a restart
+ */
+@Injectable()
+export class ProviderRegistry implements OnModuleInit, OnModuleDestroy {
+  private entries: Map<string, RegistryEntry> = new Map();
+  private readonly healthCheckIntervalMinutes = parseInt(process.env.PROVIDER_HEALTH_CHECK_INTERVAL_MINUTES || '5');
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @Inject(FLIGHT_PROVIDERS) providers: IFlightProvider[],
+    @Inject(PROVIDERS_CONFIG) config: ProvidersConfig,
+    private providerPolicyService: ProviderPolicyService,
+  ) {
+    const configs = getProviderConfigMap(config);
+
+    for (const provider of providers) {
+      const providerConfig = configs.get(provider.name);
+      if (!providerConfig) {
+        throw new Error(`No configuration for provider ${provider.name}`);
+      }
+      this.entries.set(provider.name, {
+        provider,
+        config: providerConfig,
+        enabled: providerConfig.enabled,
+        lastHealthCheck: null,
+      });
+    }
+
+    console.log('[INIT] Registered providers:', this.getProviderNames());
+    console.log('[INIT] Enabled providers:', this.getEnabledProviders().map((p) => p.name));
+  }
+
+  onModuleInit(): void {
+    // Don't block startup on health checks
+    this.runHealthChecks().catch((error) => console.error('[PROVIDERS] Health check failed:', error));
+
+    this.healthCheckTimer = setInterval(() => {
+      this.runHealthChecks().catch((error) => console.error('[PROVIDERS] Health check failed:', error));
+    }, this.healthCheckIntervalMinutes * 60 * 1000);
+  }
+
+  onModuleDestroy(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Get a provider by name (enabled or not)
+   */
+  get(name: string): IFlightProvider | undefined {
+    return this.entries.get(name)?.provider;
+  }
+
+  /**
+   * Check if a provider is registered and enabled
+   */
+  isEnabled(name: string): boolean {
+    return this.entries.get(name)?.enabled ?? false;
+  }
+
+  /**
+   * How long a provider's search results may be cached, in seconds
+   */
+  getCacheTtl(name: string): number {
+    return this.entries.get(name)?.config.cacheTtlSeconds ?? 0;
+  }
+
+  /**
+   * Enabled providers, in priority order
+   * With route regions, only providers configured for at least one of them
+   * (or for every region) are returned
+   */
+  getEnabledProviders(regions: Region[] = []): IFlightProvider[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => entry.enabled && this.servesRegions(entry, regions))
+      .sort((a, b) => a.config.priority - b.config.priority)
+      .map((entry) => entry.provider);
+  }
+
+  /**
+   * Names of all registered providers, in priority order
+   */
+  getProviderNames(): string[] {
+    return Array.from(this.entries.values())
+      .sort((a, b) => a.config.priority - b.config.priority)
+      .map((entry) => entry.provider.name);
+  }
+
+  /**
+   * Public view of every registered provider and its runtime state
+   */
+  getProviderInfo(): ProviderInfo[] {
+    return this.getProviderNames().map((name) => this.toInfo(this.entries.get(name)!));
+  }
+
+  /**
+   * Enable or disable a provider at runtime
+   */
+  setEnabled(name: string, enabled: boolean): ProviderInfo {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new NotFoundException(`Provider ${name} is not registered`);
+    }
+
+    if (enabled && !entry.provider.isConfigured()) {
+      throw new BadRequestException(`Provider ${name} is missing credentials and cannot be enabled`);
+    }
+
+    entry.enabled = enabled;
+    console.log(`[PROVIDERS] Provider ${name} ${enabled ? 'enabled' : 'disabled'} at runtime`);
+
+    return this.toInfo(entry);
+  }
+
+  /**
+   * Run isHealthy() on every enabled provider and record the outcome
+   */
+  async runHealthChecks(): Promise<void> {
+    const enabled = Array.from(this.entries.values()).filter((entry) => entry.enabled);
+
+    await Promise.all(
+      enabled.map(async (entry) => {
+        try {
+          const healthy = await entry.provider.isHealthy();
+          entry.lastHealthCheck = { healthy, checkedAt: new Date().toISOString() };
+        } catch (error) {
+          entry.lastHealthCheck = {
+            healthy: false,
+            checkedAt: new Date().toISOString(),
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+        }
+      }),
+    );
+  }
+
+  /**
+   * Whether a provider is used for a route in the given regions
+   */
+  private servesRegions(entry: RegistryEntry, regions: Region[]): boolean {
+    const configured = entry.config.regions;
+    return configured.length === 0 || regions.length === 0 || regions.some((region) => configured.includes(region));
+  }
+
+  private toInfo(entry: RegistryEntry): ProviderInfo {
+    return {
+      name: entry.provider.name,
+      enabled: entry.enabled,
+      configured: entry.provider.isConfigured(),
+      priority: entry.config.priority,
+      regions: entry.config.regions,
+      timeoutMs: entry.config.timeoutMs,
+      cacheTtlSeconds: entry.config.cacheTtlSeconds,
+      circuitState: this.providerPolicyService.getCircuitState(entry.provider.name),
+      lastHealthCheck: entry.lastHealthCheck,
+    };
+  }
+}
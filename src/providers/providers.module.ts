@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { AmadeusProvider } from './amadeus.provider';
+import { KiwiProvider } from './kiwi.provider';
+import { DemoProvider } from './demo.provider';
+import { IFlightProvider } from './base.provider';
+import { PROVIDERS_CONFIG, loadProvidersConfig } from './provider.config';
+import { FLIGHT_PROVIDERS, ProviderRegistry } from './provider.registry';
+import { ProviderPolicyService } from '../resilience/provider-policy.service';
+import { AirlinesModule } from '../airlines/airlines.module';
+import { AffiliateModule } from '../affiliate/affiliate.module';
+
+@Module({
+  imports: [AirlinesModule, AffiliateModule],
+  providers: [
+    {
+      provide: PROVIDERS_CONFIG,
+      useFactory: () => loadProvidersConfig(),
+    },
+    AmadeusProvider,
+    KiwiProvider,
+    DemoProvider,
+    {
+      provide: FLIGHT_PROVIDERS,
+      useFactory: (...providers: IFlightProvider[]) => providers,
+      inject: [AmadeusProvider, KiwiProvider, DemoProvider],
+    },
+    ProviderRegistry,
+    ProviderPolicyService,
+  ],
+  exports: [ProviderRegistry, ProviderPolicyService],
+})
+export class ProvidersModule {}
@@ -0,0 +1,183 @@
+import { FlightFilterCriteria, FlightSegmentDetail, NormalizedFlight } from '../common/types';
+import { buildFacets } from './flight-facets';
+
+type Leg = [flightNumber: string, from: string, to: string, departure: string, arrival: string];
+
+/**
+ * One-way flight over the given segments; segment times are airport local
+ */
+function flight(id: string, price: number, legs: Leg[], extra: Partial<NormalizedFlight> = {}): NormalizedFlight {
+  const segments: FlightSegmentDetail[] = legs.map(([flightNumber, from, to, departure, arrival]) => ({
+    departureAirport: from,
+    departureTime: departure,
+    arrivalAirport: to,
+    arrivalTime: arrival,
+    carrierCode: flightNumber.slice(0, 2),
+    carrierName: flightNumber.slice(0, 2),
+    flightNumber,
+    duration: 0,
+  }));
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const duration = Math.round((new Date(last.arrivalTime).getTime() - new Date(first.departureTime).getTime()) / 60000);
+
+  return {
+    id,
+    provider: 'amadeus',
+    airline: first.carrierCode,
+    airlineCode: first.carrierCode,
+    departureTime: first.departureTime,
+    arrivalTime: last.arrivalTime,
+    duration,
+    stops: segments.length - 1,
+    price,
+    currency: 'EUR',
+    bookingUrl: `https://example.com/${id}`,
+    tripType: 'one-way',
+    departureAirport: first.departureAirport,
+    arrivalAirport: last.arrivalAirport,
+    departureDate: first.departureTime.slice(0, 10),
+    itineraries: [{ direction: 'outbound', duration, segments, stops: segments.length - 1 }],
+    ...extra,
+  };
+}
+
+const nonstop = flight('nonstop', 500, [['BA117', 'LHR', 'JFK', '2026-12-01T10:00:00', '2026-12-01T13:00:00']], {
+  offers: [
+    { id: 'nonstop', provider: 'amadeus', price: 500, currency: 'EUR', bookingUrl: '' },
+    { id: 'kiwi_nonstop', provider: 'kiwi', price: 520, currency: 'EUR', bookingUrl: '' },
+  ],
+});
+const viaParis = flight('via-paris', 300, [
+  ['AF1081', 'LHR', 'CDG', '2026-12-01T06:00:00', '2026-12-01T08:00:00'],
+  ['AF006', 'CDG', 'JFK', '2026-12-01T10:00:00', '2026-12-01T12:30:00'],
+]);
+const viaParisOnDelta = flight('via-paris-delta', 350, [
+  ['AF1081', 'LHR', 'CDG', '2026-12-01T06:00:00', '2026-12-01T08:00:00'],
+  ['DL405', 'CDG', 'JFK', '2026-12-01T11:00:00', '2026-12-01T13:30:00'],
+]);
+const twoStops = flight('two-stops', 200, [
+  ['LH921', 'LHR', 'FRA', '2026-12-01T19:00:00', '2026-12-01T21:30:00'],
+  ['LH400', 'FRA', 'BOS', '2026-12-02T08:00:00', '2026-12-02T11:00:00'],
+  ['B6100', 'BOS', 'JFK', '2026-12-02T12:00:00', '2026-12-02T13:00:00'],
+]);
+
+const flights = [nonstop, viaParis, viaParisOnDelta, twoStops];
+
+function facets(criteria: FlightFilterCriteria = {}) {
+  return buildFacets(flights, criteria);
+}
+
+describe('flight facets', () => {
+  it('counts every result without filters', () => {
+    const result = facets();
+
+    expect(result.stops).toEqual([
+      { value: '0', count: 1, minPrice: 500 },
+      { value: '1', count: 2, minPrice: 300 },
+      { value: '2+', count: 1, minPrice: 200 },
+    ]);
+    expect(result.price).toEqual({ min: 200, max: 500 });
+    expect(result.duration).toEqual({ min: 3 * 60, max: 18 * 60 });
+  });
+
+  it('counts a flight once per airline it flies, most common first', () => {
+    expect(facets().airlines).toEqual([
+      { value: 'AF', label: 'AF', count: 2, minPrice: 300 },
+      { value: 'LH', label: 'LH', count: 1, minPrice: 200 },
+      { value: 'B6', label: 'B6', count: 1, minPrice: 200 },
+      { value: 'DL', label: 'DL', count: 1, minPrice: 350 },
+      { value: 'BA', label: 'BA', count: 1, minPrice: 500 },
+    ]);
+  });
+
+  it('ignores the airline filter in the airline facet only', () => {
+    const result = facets({ airlines: ['AF'] });
+
+    expect(result.airlines.map((bucket) => bucket.value)).toEqual(['AF', 'LH', 'B6', 'DL', 'BA']);
+    expect(result.stops).toEqual([{ value: '1', count: 1, minPrice: 300 }]);
+  });
+
+  it('ignores the stops filter in the stops facet only', () => {
+    const result = facets({ maxStops: 0 });
+
+    expect(result.stops.map((bucket) => bucket.value)).toEqual(['0', '1', '2+']);
+    expect(result.airlines.map((bucket) => bucket.value)).toEqual(['BA']);
+  });
+
+  it('ignores the price cap in the price range only', () => {
+    const result = facets({ maxPrice: 320 });
+
+    expect(result.price).toEqual({ min: 200, max: 500 });
+    expect(result.stops.map((bucket) => bucket.value)).toEqual(['1', '2+']);
+  });
+
+  it('computes the price range on the requested basis', () => {
+    const withBags = { ...viaParis, pricing: { total: 300, perAdult: 300, totalWithBags: { checkedBags: 1, total: 380 } } };
+
+    expect(buildFacets([withBags, nonstop], { priceBasis: 'with-bags' }).price).toEqual({ min: 380, max: 500 });
+  });
+
+  it('prices airline, stops and connection buckets on the requested basis', () => {
+    const perPerson = (f: NormalizedFlight, perAdult: number) => ({ ...f, pricing: { total: f.price, perAdult } });
+    const result = buildFacets([perPerson(viaParis, 150), perPerson(viaParisOnDelta, 175), perPerson(nonstop, 250)], {
+      priceBasis: 'per-person',
+    });
+
+    expect(result.stops).toEqual([
+      { value: '0', count: 1, minPrice: 250 },
+      { value: '1', count: 2, minPrice: 150 },
+    ]);
+    expect(result.airlines.find((bucket) => bucket.value === 'DL')?.minPrice).toBe(175);
+    expect(result.connectionAirports).toEqual([{ value: 'CDG', count: 2, minPrice: 150 }]);
+  });
+
+  it('ignores the duration filter in the duration range only', () => {
+    const result = facets({ maxDuration: 7 * 60 });
+
+    expect(result.duration).toEqual({ min: 3 * 60, max: 18 * 60 });
+    expect(result.price).toEqual({ min: 300, max: 500 });
+  });
+
+  it('ignores time windows in the time histograms only', () => {
+    const result = facets({ outboundDepartAfter: '09:00' });
+
+    expect(result.times.outbound.departure.filter((bucket) => bucket.count > 0)).toEqual([
+      { hour: 6, count: 2 },
+      { hour: 10, count: 1 },
+      { hour: 19, count: 1 },
+    ]);
+    expect(result.times.inbound).toBeUndefined();
+    expect(result.airlines.map((bucket) => bucket.value)).toEqual(['LH', 'B6', 'BA']);
+  });
+
+  it('ignores the connection airport filter in the connection airport facet only', () => {
+    const result = facets({ connectionAirports: ['FRA'] });
+
+    expect(result.connectionAirports.map((bucket) => [bucket.value, bucket.count])).toEqual([
+      ['CDG', 2],
+      ['FRA', 1],
+      ['BOS', 1],
+    ]);
+    expect(result.price).toEqual({ min: 200, max: 200 });
+  });
+
+  it('counts providers by their own offer prices, after every filter', () => {
+    expect(facets().providers).toEqual([
+      { value: 'amadeus', count: 4, minPrice: 200 },
+      { value: 'kiwi', count: 1, minPrice: 520 },
+    ]);
+    expect(facets({ maxStops: 0 }).providers).toEqual([
+      { value: 'amadeus', count: 1, minPrice: 500 },
+      { value: 'kiwi', count: 1, minPrice: 520 },
+    ]);
+  });
+
+  it('returns empty facets when nothing passes', () => {
+    const result = buildFacets([], {});
+
+    expect(result.price).toBeNull();
+    expect(result.duration).toBeNull();
+    expect(result.airlines).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { FacetBucket, FlightFacets, FlightFilterCriteria, NormalizedFlight, TimeOfDayHistogram } from '../common/types';
+import { buildFlightFilters, FlightFilter } from './flight-filters';
+import { getConnections, getLegs, getSegments, ItineraryLeg, localMinutes } from './itinerary.utils';
+import { getComparablePrice } from './price-basis';
+
+/**
+ * Compute sidebar facets for a result set
+ * Each facet is computed over the flights that pass every filter except the
+ * ones it controls (disjunctive faceting); providers have no filter of their own
+ */
+export function buildFacets(flights: NormalizedFlight[], criteria: FlightFilterCriteria = {}): FlightFacets {
+  const filters = buildFlightFilters(criteria);
+  const passing = (ignore?: string) => flights.filter((flight) => passesAll(flight, filters, ignore));
+
+  const prices = passing('price').map((flight) => getComparablePrice(flight, criteria.priceBasis));
+  const timed = passing('times');
+  const timedLegs = timed.flatMap(getLegs);
+  const durations = passing('duration').map(getLongestItinerary);
+
+  return {
+    airlines: countBuckets(passing('airlines'), criteria.priceBasis, getCarrierBuckets),
+    stops: countBuckets(passing('stops'), criteria.priceBasis, (flight) => [{ value: stopsBucket(flight) }]).sort((a, b) =>
+      a.value.localeCompare(b.value),
+    ),
+    times: {
+      outbound: buildHistogram(timedLegs.filter((leg) => leg.direction === 'outbound')),
+      inbound: timedLegs.some((leg) => leg.direction === 'inbound')
+        ? buildHistogram(timedLegs.filter((leg) => leg.direction === 'inbound'))
+        : undefined,
+    },
+    price: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+    duration: durations.length > 0 ? { min: Math.min(...durations), max: Math.max(...durations) } : null,
+    connectionAirports: countBuckets(passing('connectionAirports'), criteria.priceBasis, (flight) =>
+      getConnections(flight).map((conn) => ({ value: conn.airport })),
+    ),
+    providers: countProviders(passing()),
+  };
+}
+
+function passesAll(flight: NormalizedFlight, filters: FlightFilter[], ignore?: string): boolean {
+  return filters.every((filter) => filter.name === ignore || filter.test(flight));
+}
+
+/**
+ * Count flights (and their cheapest price on the requested basis) per value
+ * A flight counts once per distinct value it has; most common values first
+ */
+function countBuckets(
+  flights: NormalizedFlight[],
+  priceBasis: FlightFilterCriteria['priceBasis'],
+  getValues: (flight: NormalizedFlight) => { value: string; label?: string }[],
+): FacetBucket[] {
+  const buckets = new Map<string, FacetBucket>();
+
+  for (const flight of flights) {
+    const seen = new Set<string>();
+    const price = getComparablePrice(flight, priceBasis);
+
+    for (const { value, label } of getValues(flight)) {
+      if (seen.has(value)) {
+        continue;
+      }
+      seen.add(value);
+
+      const bucket = buckets.get(value);
+      if (bucket) {
+        bucket.count++;
+        bucket.minPrice = Math.min(bucket.minPrice, price);
+      } else {
+        buckets.set(value, { value, label, count: 1, minPrice: price });
+      }
+    }
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => b.count - a.count || a.minPrice - b.minPrice);
+}
+
+/**
+ * Count flights per provider using each provider's own offer price
+ */
+function countProviders(flights: NormalizedFlight[]): FacetBucket[] {
+  const buckets = new Map<string, FacetBucket>();
+
+  for (const flight of flights) {
+    const offers = flight.offers || [{ provider: flight.provider, price: flight.price }];
+    const cheapestByProvider = new Map<string, number>();
+    for (const offer of offers) {
+      cheapestByProvider.set(offer.provider, Math.min(offer.price, cheapestByProvider.get(offer.provider) ?? Infinity));
+    }
+
+    for (const [provider, price] of cheapestByProvider) {
+      const bucket = buckets.get(provider);
+      if (bucket) {
+        bucket.count++;
+        bucket.minPrice = Math.min(bucket.minPrice, price);
+      } else {
+        buckets.set(provider, { value: provider, count: 1, minPrice: price });
+      }
+    }
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+}
+
+function getCarrierBuckets(flight: NormalizedFlight): { value: string; label?: string }[] {
+  const segments = getSegments(flight);
+  if (segments.length === 0) {
+    return [{ value: flight.airlineCode, label: flight.airline }];
+  }
+  return segments.map((seg) => ({ value: seg.carrierCode, label: seg.carrierName }));
+}
+
+/**
+ * '0', '1' or '2+' by the most stops on any itinerary
+ */
+function stopsBucket(flight: NormalizedFlight): string {
+  const itineraries = flight.itineraries || [];
+  const stops = itineraries.length > 0 ? Math.max(...itineraries.map((itin) => itin.stops)) : flight.stops;
+  return stops >= 2 ? '2+' : String(stops);
+}
+
+function getLongestItinerary(flight: NormalizedFlight): number {
+  const itineraries = flight.itineraries || [];
+  return itineraries.length > 0 ? Math.max(...itineraries.map((itin) => itin.duration)) : flight.duration;
+}
+
+function buildHistogram(legs: ItineraryLeg[]): TimeOfDayHistogram {
+  const departure = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }));
+  const arrival = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }));
+
+  for (const leg of legs) {
+    departure[Math.floor(localMinutes(leg.departure) / 60)].count++;
+    arrival[Math.floor(localMinutes(leg.arrival) / 60)].count++;
+  }
+
+  return { departure, arrival };
+}
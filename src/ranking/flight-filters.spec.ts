@@ -0,0 +1,194 @@
+import { FlightFilterCriteria, FlightItinerary, FlightSegmentDetail, NormalizedFlight } from '../common/types';
+import { buildFlightFilters, normalizeCabin } from './flight-filters';
+import { rankingEngine } from './ranking.engine';
+
+type SegmentSpec = [flightNumber: string, from: string, to: string, departure: string, arrival: string, extra?: Partial<FlightSegmentDetail>];
+
+function segment([flightNumber, from, to, departure, arrival, extra]: SegmentSpec): FlightSegmentDetail {
+  return {
+    departureAirport: from,
+    departureTime: departure,
+    arrivalAirport: to,
+    arrivalTime: arrival,
+    carrierCode: flightNumber.slice(0, 2),
+    flightNumber,
+    duration: Math.round((new Date(arrival).getTime() - new Date(departure).getTime()) / 60000),
+    ...extra,
+  };
+}
+
+function itinerary(direction: FlightItinerary['direction'], ...specs: SegmentSpec[]): FlightItinerary {
+  const segments = specs.map(segment);
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  return {
+    direction,
+    duration: Math.round((new Date(last.arrivalTime).getTime() - new Date(first.departureTime).getTime()) / 60000),
+    segments,
+    stops: segments.length - 1,
+  };
+}
+
+function flight(id: string, price: number, itineraries: FlightItinerary[], extra: Partial<NormalizedFlight> = {}): NormalizedFlight {
+  const outbound = itineraries[0];
+  return {
+    id,
+    provider: 'amadeus',
+    airline: outbound.segments[0].carrierCode,
+    airlineCode: outbound.segments[0].carrierCode,
+    departureTime: outbound.segments[0].departureTime,
+    arrivalTime: outbound.segments[outbound.segments.length - 1].arrivalTime,
+    duration: outbound.duration,
+    stops: outbound.stops,
+    price,
+    currency: 'EUR',
+    bookingUrl: `https://example.com/${id}`,
+    tripType: itineraries.length > 1 ? 'round-trip' : 'one-way',
+    departureAirport: outbound.segments[0].departureAirport,
+    arrivalAirport: outbound.segments[outbound.segments.length - 1].arrivalAirport,
+    departureDate: outbound.segments[0].departureTime.slice(0, 10),
+    itineraries,
+    ...extra,
+  };
+}
+
+// Round trips LHR-JFK; times are airport local
+const nonstop = flight(
+  'nonstop',
+  500,
+  [
+    itinerary('outbound', ['BA117', 'LHR', 'JFK', '2026-12-01T10:00:00', '2026-12-01T13:00:00', { alliance: 'oneworld', cabin: 'ECONOMY' }]),
+    itinerary('inbound', ['BA114', 'JFK', 'LHR', '2026-12-08T18:00:00', '2026-12-09T06:00:00', { alliance: 'oneworld', cabin: 'ECONOMY' }]),
+  ],
+  { fare: { checkedBags: { quantity: 1 }, refundable: true, changeable: true } },
+);
+const viaParis = flight(
+  'via-paris',
+  300,
+  [
+    itinerary(
+      'outbound',
+      ['AF1081', 'LHR', 'CDG', '2026-12-01T06:00:00', '2026-12-01T08:00:00', { alliance: 'SkyTeam', cabin: 'Premium Economy' }],
+      ['AF006', 'CDG', 'JFK', '2026-12-01T10:00:00', '2026-12-01T12:30:00', { alliance: 'SkyTeam' }],
+    ),
+    itinerary(
+      'inbound',
+      ['AF007', 'JFK', 'CDG', '2026-12-08T16:00:00', '2026-12-09T05:30:00', { alliance: 'SkyTeam' }],
+      ['AF1180', 'CDG', 'LHR', '2026-12-09T07:00:00', '2026-12-09T07:30:00', { alliance: 'SkyTeam' }],
+    ),
+  ],
+  { fare: { checkedBags: { quantity: 0 }, refundable: false, changeable: true } },
+);
+const overnightInFrankfurt = flight(
+  'via-frankfurt',
+  250,
+  [
+    itinerary(
+      'outbound',
+      ['LH921', 'LHR', 'FRA', '2026-12-01T19:00:00', '2026-12-01T21:30:00', { alliance: 'Star Alliance', cabin: 'BUSINESS' }],
+      ['LH400', 'FRA', 'JFK', '2026-12-02T08:00:00', '2026-12-02T11:00:00', { alliance: 'Star Alliance', cabin: 'BUSINESS' }],
+    ),
+  ],
+  { fare: { checkedBags: { weightKg: 23 } } },
+);
+const airportChange = flight('airport-change', 280, [
+  itinerary(
+    'outbound',
+    ['UA901', 'LHR', 'EWR', '2026-12-01T23:30:00', '2026-12-02T02:30:00', { alliance: 'Star Alliance' }],
+    ['B6100', 'LGA', 'JFK', '2026-12-02T04:00:00', '2026-12-02T05:00:00'],
+  ),
+]);
+
+const flights = [nonstop, viaParis, overnightInFrankfurt, airportChange];
+
+function ids(criteria: FlightFilterCriteria): string[] {
+  return rankingEngine.filterFlights(flights, criteria).map((f) => f.id);
+}
+
+describe('flight filters', () => {
+  it('builds no filters without criteria', () => {
+    expect(buildFlightFilters({})).toEqual([]);
+    expect(ids({})).toEqual(flights.map((f) => f.id));
+  });
+
+  it('caps the price on the requested basis', () => {
+    const withBags = { ...viaParis, pricing: { total: 300, perAdult: 300, totalWithBags: { checkedBags: 1, total: 360 } } };
+
+    expect(ids({ maxPrice: 280 })).toEqual(['via-frankfurt', 'airport-change']);
+    expect(rankingEngine.filterFlights([withBags], { maxPrice: 300 })).toHaveLength(1);
+    expect(rankingEngine.filterFlights([withBags], { maxPrice: 300, priceBasis: 'with-bags' })).toHaveLength(0);
+  });
+
+  it('limits stops on every itinerary', () => {
+    expect(ids({ maxStops: 0 })).toEqual(['nonstop']);
+    expect(ids({ maxStops: 1 })).toEqual(flights.map((f) => f.id));
+  });
+
+  it('limits the duration of every itinerary', () => {
+    // The inbound leg via Paris takes 15h30
+    expect(ids({ maxDuration: 12 * 60 })).toEqual(['nonstop', 'airport-change']);
+  });
+
+  it('requires every carrier to be an included airline and none to be excluded', () => {
+    expect(ids({ airlines: ['ba', 'AF'] })).toEqual(['nonstop', 'via-paris']);
+    expect(ids({ airlines: ['UA'] })).toEqual([]);
+    expect(ids({ excludeAirlines: ['B6'] })).toEqual(['nonstop', 'via-paris', 'via-frankfurt']);
+  });
+
+  it('requires every carrier to be in one of the alliances', () => {
+    expect(ids({ alliances: ['Star Alliance'] })).toEqual(['via-frankfurt']);
+    expect(ids({ alliances: ['oneworld', 'SkyTeam'] })).toEqual(['nonstop', 'via-paris']);
+  });
+
+  it('requires every segment with a known cabin to be in one of the cabins', () => {
+    expect(normalizeCabin('PREMIUM_ECONOMY')).toBe('premium-economy');
+    expect(ids({ cabins: ['economy'] })).toEqual(['nonstop', 'airport-change']);
+    expect(ids({ cabins: ['premium-economy'] })).toEqual(['via-paris', 'airport-change']);
+  });
+
+  it('applies outbound time windows to outbound legs only', () => {
+    expect(ids({ outboundDepartAfter: '09:00', outboundDepartBefore: '20:00' })).toEqual(['nonstop', 'via-frankfurt']);
+    expect(ids({ outboundArriveBefore: '12:00' })).toEqual(['via-frankfurt', 'airport-change']);
+  });
+
+  it('applies inbound time windows to inbound legs only', () => {
+    expect(ids({ inboundDepartAfter: '17:00' })).toEqual(['nonstop', 'via-frankfurt', 'airport-change']);
+  });
+
+  it('lets a time window wrap midnight', () => {
+    expect(ids({ outboundDepartAfter: '22:00', outboundDepartBefore: '07:00' })).toEqual(['via-paris', 'airport-change']);
+  });
+
+  it('bounds every connection by minLayover and maxLayover', () => {
+    expect(ids({ minLayover: 100 })).toEqual(['nonstop', 'via-frankfurt']);
+    expect(ids({ maxLayover: 100 })).toEqual(['nonstop', 'airport-change']);
+  });
+
+  it('filters by connection airport, counting both sides of an airport change', () => {
+    expect(ids({ excludeConnectionAirports: ['cdg'] })).toEqual(['nonstop', 'via-frankfurt', 'airport-change']);
+    expect(ids({ connectionAirports: ['FRA', 'LGA'] })).toEqual(['via-frankfurt', 'airport-change']);
+  });
+
+  it('drops overnight connections', () => {
+    expect(ids({ noOvernightLayovers: true })).toEqual(['nonstop', 'via-paris']);
+  });
+
+  it('drops connections that change airport', () => {
+    expect(ids({ noAirportChanges: true })).toEqual(['nonstop', 'via-paris', 'via-frankfurt']);
+  });
+
+  it('drops red-eye legs', () => {
+    // Legs are judged end to end: via Paris lands in CDG at 05:30 mid-leg but reaches LHR at 07:30
+    expect(ids({ noRedEyes: true })).toEqual(['nonstop', 'via-paris', 'via-frankfurt']);
+  });
+
+  it('requires fares to say they include, refund or change', () => {
+    expect(ids({ checkedBagIncluded: true })).toEqual(['nonstop', 'via-frankfurt']);
+    expect(ids({ refundable: true })).toEqual(['nonstop']);
+    expect(ids({ changeable: true })).toEqual(['nonstop', 'via-paris']);
+  });
+
+  it('requires every filter that is set', () => {
+    expect(ids({ maxStops: 1, airlines: ['LH', 'UA', 'B6'], noAirportChanges: true })).toEqual(['via-frankfurt']);
+  });
+});
@@ -0,0 +1,203 @@
+import { BaggageAllowance, CabinClass, FlightFilterCriteria, FlightItinerary, NormalizedFlight } from '../common/types';
+import { getConnections, getLegs, getSegments, isOvernight, isRedEye, localMinutes, ItineraryLeg } from './itinerary.utils';
+import { getComparablePrice } from './price-basis';
+
+/**
+ * A named flight predicate
+ * Names group related criteria (e.g. all time windows are 'times') so
+ * callers can apply every filter except one group
+ */
+export interface FlightFilter {
+  name: string;
+  test(flight: NormalizedFlight): boolean;
+}
+
+/**
+ * Build the predicates for the criteria that are set
+ */
+export function buildFlightFilters(criteria: FlightFilterCriteria): FlightFilter[] {
+  const filters: FlightFilter[] = [];
+
+  if (criteria.maxPrice) {
+    filters.push({
+      name: 'price',
+      test: (flight) => getComparablePrice(flight, criteria.priceBasis) <= criteria.maxPrice!,
+    });
+  }
+
+  if (criteria.maxStops !== undefined) {
+    filters.push({
+      name: 'stops',
+      test: (flight) => getItineraryTotals(flight).every((itin) => itin.stops <= criteria.maxStops!),
+    });
+  }
+
+  if (criteria.maxDuration) {
+    filters.push({
+      name: 'duration',
+      test: (flight) => getItineraryTotals(flight).every((itin) => itin.duration <= criteria.maxDuration!),
+    });
+  }
+
+  if (criteria.airlines?.length || criteria.excludeAirlines?.length) {
+    const included = criteria.airlines?.map((code) => code.toUpperCase());
+    const excluded = criteria.excludeAirlines?.map((code) => code.toUpperCase()) || [];
+    filters.push({
+      name: 'airlines',
+      test: (flight) =>
+        getCarrierCodes(flight).every((code) => (!included || included.includes(code)) && !excluded.includes(code)),
+    });
+  }
+
+  if (criteria.alliances?.length) {
+    filters.push({
+      name: 'alliances',
+      test: (flight) => {
+        const segments = getSegments(flight);
+        const alliances = segments.length > 0 ? segments.map((seg) => seg.alliance) : [flight.alliance];
+        return alliances.every((alliance) => !!alliance && criteria.alliances!.includes(alliance));
+      },
+    });
+  }
+
+  if (criteria.cabins?.length) {
+    filters.push({
+      name: 'cabins',
+      // Segments without a cabin are unknown rather than wrong, so they pass
+      test: (flight) =>
+        getSegments(flight).every((seg) => !seg.cabin || criteria.cabins!.includes(normalizeCabin(seg.cabin))),
+    });
+  }
+
+  const windows = buildTimeWindows(criteria);
+  if (windows.length > 0) {
+    filters.push({
+      name: 'times',
+      test: (flight) => getLegs(flight).every((leg) => windows.every((window) => window(leg))),
+    });
+  }
+
+  if (criteria.minLayover !== undefined || criteria.maxLayover !== undefined) {
+    filters.push({
+      name: 'layover',
+      test: (flight) =>
+        getConnections(flight).every(
+          (conn) =>
+            (criteria.minLayover === undefined || conn.minutes >= criteria.minLayover) &&
+            (criteria.maxLayover === undefined || conn.minutes <= criteria.maxLayover),
+        ),
+    });
+  }
+
+  if (criteria.excludeConnectionAirports?.length || criteria.connectionAirports?.length) {
+    const excluded = criteria.excludeConnectionAirports?.map((code) => code.toUpperCase()) || [];
+    const required = criteria.connectionAirports?.map((code) => code.toUpperCase());
+    filters.push({
+      name: 'connectionAirports',
+      test: (flight) => {
+        const airports = getConnections(flight).flatMap((conn) => [conn.airport, conn.departureAirport || conn.airport]);
+        return (
+          !airports.some((airport) => excluded.includes(airport)) &&
+          (!required || airports.some((airport) => required.includes(airport)))
+        );
+      },
+    });
+  }
+
+  if (criteria.noOvernightLayovers) {
+    filters.push({ name: 'overnight', test: (flight) => !getConnections(flight).some(isOvernight) });
+  }
+
+  if (criteria.noAirportChanges) {
+    filters.push({
+      name: 'airportChange',
+      test: (flight) =>
+        getConnections(flight).every((conn) => !conn.departureAirport || conn.departureAirport === conn.airport),
+    });
+  }
+
+  if (criteria.noRedEyes) {
+    filters.push({
+      name: 'redEye',
+      test: (flight) => !getLegs(flight).some((leg) => isRedEye(leg.departure, leg.arrival)),
+    });
+  }
+
+  if (criteria.checkedBagIncluded) {
+    filters.push({ name: 'checkedBag', test: (flight) => hasBags(flight.fare?.checkedBags) });
+  }
+
+  if (criteria.refundable) {
+    filters.push({ name: 'refundable', test: (flight) => flight.fare?.refundable === true });
+  }
+
+  if (criteria.changeable) {
+    filters.push({ name: 'changeable', test: (flight) => flight.fare?.changeable === true });
+  }
+
+  return filters;
+}
+
+/**
+ * Map provider cabin labels ('PREMIUM_ECONOMY', 'Premium Economy') to our values
+ */
+export function normalizeCabin(cabin: string): CabinClass {
+  return cabin.trim().toLowerCase().replace(/[\s_]+/g, '-') as CabinClass;
+}
+
+/**
+ * Stops and duration per itinerary, falling back to the top-level fields
+ */
+function getItineraryTotals(flight: NormalizedFlight): Pick<FlightItinerary, 'stops' | 'duration'>[] {
+  const itineraries = flight.itineraries || [];
+  return itineraries.length > 0 ? itineraries : [{ stops: flight.stops, duration: flight.duration }];
+}
+
+function hasBags(allowance?: BaggageAllowance): boolean {
+  return !!allowance && ((allowance.quantity ?? 0) > 0 || (allowance.weightKg ?? 0) > 0);
+}
+
+/**
+ * Every marketing carrier on the flight, falling back to the headline airline
+ */
+function getCarrierCodes(flight: NormalizedFlight): string[] {
+  const segments = getSegments(flight);
+  return segments.length > 0 ? segments.map((seg) => seg.carrierCode.toUpperCase()) : [flight.airlineCode.toUpperCase()];
+}
+
+/**
+ * Time-of-day checks for the windows that are set
+ * Inbound windows only apply to inbound legs; outbound windows to outbound
+ * legs (every leg of a multi-city trip)
+ */
+function buildTimeWindows(criteria: FlightFilterCriteria): ((leg: ItineraryLeg) => boolean)[] {
+  const windows: ((leg: ItineraryLeg) => boolean)[] = [];
+
+  const add = (direction: ItineraryLeg['direction'], field: 'departure' | 'arrival', after?: string, before?: string) => {
+    if (after || before) {
+      windows.push((leg) => leg.direction !== direction || isWithin(localMinutes(leg[field]), after, before));
+    }
+  };
+
+  add('outbound', 'departure', criteria.outboundDepartAfter, criteria.outboundDepartBefore);
+  add('outbound', 'arrival', criteria.outboundArriveAfter, criteria.outboundArriveBefore);
+  add('inbound', 'departure', criteria.inboundDepartAfter, criteria.inboundDepartBefore);
+  add('inbound', 'arrival', criteria.inboundArriveAfter, criteria.inboundArriveBefore);
+
+  return windows;
+}
+
+/**
+ * Whether a time of day falls in [after, before]; wraps midnight when after > before
+ */
+function isWithin(minutes: number, after?: string, before?: string): boolean {
+  const start = after ? toMinutes(after) : 0;
+  const end = before ? toMinutes(before) : 24 * 60;
+
+  return start <= end ? minutes >= start && minutes <= end : minutes >= start || minutes <= end;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
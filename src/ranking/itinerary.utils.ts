@@ -0,0 +1,100 @@
+import { FlightItinerary, FlightSegmentDetail, NormalizedFlight } from '../common/types';
+
+/**
+ * Helpers for reading itineraries consistently in ranking and filtering
+ * Providers report segment times in airport local time, so times are read
+ * as written rather than converted
+ */
+
+export interface ItineraryLeg {
+  direction: FlightItinerary['direction'];
+  departure: string;
+  arrival: string;
+  segments: FlightSegmentDetail[];
+}
+
+export interface Connection {
+  airport: string; // Where the previous segment lands
+  departureAirport?: string; // Where the next segment leaves from (differs on an airport change)
+  arrival?: string; // Local arrival time, when known
+  minutes: number;
+}
+
+/**
+ * One entry per itinerary (outbound, inbound or multi-city leg)
+ * Flights without itineraries are treated as a single outbound leg
+ */
+export function getLegs(flight: NormalizedFlight): ItineraryLeg[] {
+  const itineraries = (flight.itineraries || []).filter((itin) => itin.segments.length > 0);
+  if (itineraries.length === 0) {
+    return [{ direction: 'outbound', departure: flight.departureTime, arrival: flight.arrivalTime, segments: [] }];
+  }
+
+  return itineraries.map((itin) => ({
+    direction: itin.direction,
+    departure: itin.segments[0].departureTime,
+    arrival: itin.segments[itin.segments.length - 1].arrivalTime,
+    segments: itin.segments,
+  }));
+}
+
+/**
+ * Every segment across all itineraries
+ */
+export function getSegments(flight: NormalizedFlight): FlightSegmentDetail[] {
+  return (flight.itineraries || []).flatMap((itin) => itin.segments);
+}
+
+/**
+ * Every connection across all itineraries
+ * Falls back to stopDetails (airport and duration only) when there are no segments
+ */
+export function getConnections(flight: NormalizedFlight): Connection[] {
+  const itineraries = flight.itineraries || [];
+  if (itineraries.every((itin) => itin.segments.length === 0)) {
+    return (flight.stopDetails || []).map((stop) => ({ airport: stop.airport, minutes: stop.duration }));
+  }
+
+  return itineraries.flatMap((itin) =>
+    itin.segments.slice(1).map((segment, index) => {
+      const previous = itin.segments[index];
+      return {
+        airport: previous.arrivalAirport,
+        departureAirport: segment.departureAirport,
+        arrival: previous.arrivalTime,
+        minutes: Math.round((new Date(segment.departureTime).getTime() - new Date(previous.arrivalTime).getTime()) / 60000),
+      };
+    }),
+  );
+}
+
+/**
+ * Departs 22:00-04:59 or arrives 00:00-05:59 (local)
+ */
+export function isRedEye(departure: string, arrival: string): boolean {
+  const departHour = localHour(departure);
+  return departHour >= 22 || departHour < 5 || localHour(arrival) < 6;
+}
+
+/**
+ * Whether a connection runs through 03:00 local time
+ */
+export function isOvernight(connection: Connection): boolean {
+  if (!connection.arrival) {
+    return false;
+  }
+
+  const untilThreeAm = (((3 * 60 - localMinutes(connection.arrival)) % 1440) + 1440) % 1440;
+  return untilThreeAm <= connection.minutes;
+}
+
+/**
+ * Minutes since local midnight, as written in the timestamp
+ */
+export function localMinutes(time: string): number {
+  return localHour(time) * 60 + parseInt(time.slice(14, 16));
+}
+
+function localHour(time: string): number {
+  return parseInt(time.slice(11, 13));
+}
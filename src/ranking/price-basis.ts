@@ -0,0 +1,26 @@
+import { NormalizedFlight, PriceBasis } from '../common/types';
+
+/**
+ * The price of a flight on a basis
+ * Falls back to the total when the provider gave no breakdown, and to the
+ * total for 'with-bags' when it couldn't price the bags (see isPriceKnown)
+ */
+export function getComparablePrice(flight: NormalizedFlight, basis: PriceBasis = 'total'): number {
+  switch (basis) {
+    case 'per-person':
+      return flight.pricing?.perAdult ?? flight.price;
+    case 'with-bags':
+      return flight.pricing?.totalWithBags?.total ?? flight.price;
+    default:
+      return flight.price;
+  }
+}
+
+/**
+ * Whether getComparablePrice is a real price on the basis rather than a fallback
+ * A 'with-bags' fallback leaves the bags out and would look cheaper than it is,
+ * so such flights are ranked after every flight whose bags were priced
+ */
+export function isPriceKnown(flight: NormalizedFlight, basis: PriceBasis = 'total'): boolean {
+  return basis !== 'with-bags' || flight.pricing?.totalWithBags !== undefined;
+}
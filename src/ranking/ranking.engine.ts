@@ -1,160 +1,173 @@
-import { NormalizedFlight, ScoreBreakdown } from '../common/types';
+import {
+  FlightFacets,
+  FlightFilterCriteria,
+  NormalizedFlight,
+  PriceBasis,
+  RankingOptions,
+  RankingProfile,
+  RankingWeights,
+  ScoreBreakdown,
+  ScoreComponent,
+  ScoreComponentName,
+} from '../common/types';
+import { buildRankingContext, getScorer, RankingContext } from './score-components';
+import { DEFAULT_RANKING_PROFILE, RANKING_STRATEGIES } from './ranking.strategies';
+import { buildFlightFilters } from './flight-filters';
+import { buildFacets } from './flight-facets';
+import { getComparablePrice, isPriceKnown } from './price-basis';
 
 /**
  * Ranking Engine
- * Scores flights based on price, duration, and stops
- * Can be extended with ML models or more complex logic
+ * Scores flights with a ranking strategy (see ranking.strategies.ts)
+ * Stateless: the profile and weights come with each call, so different
+ * requests can rank differently at the same time
  */
 export class RankingEngine {
-  // Weights for scoring (must sum to 1.0)
-  private priceWeight = 0.6; // Price is most important (60%)
-  private durationWeight = 0.25; // Duration is secondary (25%)
-  private stopsWeight = 0.15; // Stops matter least (15%)
-
   /**
    * Rank and sort flights
-   * Returns flights sorted by score (highest first)
+   * Returns flights sorted by score (highest first), with flights that have
+   * no price on the requested basis last
    */
-  rankFlights(flights: NormalizedFlight[]): NormalizedFlight[] {
+  rankFlights(flights: NormalizedFlight[], options: RankingOptions = {}): NormalizedFlight[] {
     if (flights.length === 0) {
       return [];
     }
 
-    // Calculate scores for all flights
-    const scoredFlights = flights.map((flight) => ({
-      ...flight,
-      rankingScore: this.calculateScore(flight, flights),
-      scoreBreakdown: this.getScoreBreakdown(flight, flights),
-    }));
+    const profile = options.profile || DEFAULT_RANKING_PROFILE;
+    const weights = this.resolveWeights(profile, options.weights);
+    const context = buildRankingContext(flights, options.priceBasis);
+
+    const scoredFlights = flights.map((flight) => {
+      const scoreBreakdown = this.getScoreBreakdown(flight, profile, weights, context);
+      return {
+        ...flight,
+        rankingScore: scoreBreakdown.totalScore,
+        scoreBreakdown,
+      };
+    });
 
     // Sort by score descending (higher score = better)
-    return scoredFlights.sort((a, b) => (b.rankingScore || 0) - (a.rankingScore || 0));
+    return scoredFlights.sort(
+      (a, b) =>
+        this.compareKnownPrice(a, b, options.priceBasis) || (b.rankingScore || 0) - (a.rankingScore || 0),
+    );
   }
 
   /**
-   * Calculate overall score for a flight
-   * Score range: 0-100
+   * Orders flights priced on the basis before those that aren't
    */
-  private calculateScore(flight: NormalizedFlight, allFlights: NormalizedFlight[]): number {
-    const priceComponent = this.scorePriceComponent(flight, allFlights);
-    const durationComponent = this.scoreDurationComponent(flight, allFlights);
-    const stopsComponent = this.scoreStopsComponent(flight, allFlights);
-
-    const score =
-      priceComponent * this.priceWeight +
-      durationComponent * this.durationWeight +
-      stopsComponent * this.stopsWeight;
-
-    return Math.round(score * 100) / 100; // Round to 2 decimals
+  private compareKnownPrice(a: NormalizedFlight, b: NormalizedFlight, priceBasis?: PriceBasis): number {
+    return Number(isPriceKnown(b, priceBasis)) - Number(isPriceKnown(a, priceBasis));
   }
 
   /**
-   * Get detailed score breakdown for a flight
+   * Score every weighted component for a flight
+   * Score range: 0-100
    */
-  private getScoreBreakdown(flight: NormalizedFlight, allFlights: NormalizedFlight[]): ScoreBreakdown {
-    const priceScore = this.scorePriceComponent(flight, allFlights);
-    const durationScore = this.scoreDurationComponent(flight, allFlights);
-    const stopsScore = this.scoreStopsComponent(flight, allFlights);
+  private getScoreBreakdown(
+    flight: NormalizedFlight,
+    profile: RankingProfile,
+    weights: [ScoreComponentName, number][],
+    context: RankingContext,
+  ): ScoreBreakdown {
+    const components: ScoreComponent[] = weights.map(([name, weight]) => ({
+      name,
+      score: getScorer(name).score(flight, context),
+      weight,
+    }));
+
+    const total = components.reduce((sum, component) => sum + component.score * component.weight, 0);
 
     return {
-      priceScore: Math.round(priceScore * 100) / 100,
-      durationScore: Math.round(durationScore * 100) / 100,
-      stopsScore: Math.round(stopsScore * 100) / 100,
-      totalScore:
-        Math.round(
-          (priceScore * this.priceWeight +
-            durationScore * this.durationWeight +
-            stopsScore * this.stopsWeight) *
-            100,
-        ) / 100,
+      profile,
+      components: components.map((component) => ({
+        ...component,
+        score: Math.round(component.score * 100) / 100,
+        weight: Math.round(component.weight * 1000) / 1000,
+      })),
+      totalScore: Math.round(total * 100) / 100, // Round to 2 decimals
     };
   }
 
   /**
-   * Score price component (0-100)
-   * Cheapest flight gets 100, most expensive gets lower score
+   * Merge request weights over the profile's defaults and normalize them
+   * Components weighted 0 are left out of the breakdown
    */
-  private scorePriceComponent(flight: NormalizedFlight, allFlights: NormalizedFlight[]): number {
-    const prices = allFlights.map((f) => f.price);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
+  private resolveWeights(profile: RankingProfile, overrides?: RankingWeights): [ScoreComponentName, number][] {
+    const strategy = RANKING_STRATEGIES.get(profile);
+    if (!strategy) {
+      throw new Error(`Unknown ranking profile: ${profile}`);
+    }
 
-    if (minPrice === maxPrice) {
-      return 100; // All flights same price
+    let entries = this.positiveWeights({ ...strategy.weights, ...overrides });
+    if (entries.length === 0) {
+      // All overrides were zero, so fall back to the profile as-is
+      entries = this.positiveWeights(strategy.weights);
     }
 
-    // Inverse scoring: lower price = higher score
-    const normalizedPrice = (flight.price - minPrice) / (maxPrice - minPrice);
-    return 100 * (1 - normalizedPrice);
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    return entries.map(([name, weight]) => [name, weight / total]);
+  }
+
+  private positiveWeights(weights: RankingWeights): [ScoreComponentName, number][] {
+    return (Object.entries(weights) as [ScoreComponentName, number | undefined][])
+      .filter((entry): entry is [ScoreComponentName, number] => !!entry[1] && entry[1] > 0);
   }
 
   /**
-   * Score duration component (0-100)
-   * Shortest flight gets 100, longest gets lower score
+   * Filter flights by criteria
+   * A flight must pass every filter that is set (see flight-filters.ts)
    */
-  private scoreDurationComponent(flight: NormalizedFlight, allFlights: NormalizedFlight[]): number {
-    const durations = allFlights.map((f) => f.duration);
-    const minDuration = Math.min(...durations);
-    const maxDuration = Math.max(...durations);
-
-    if (minDuration === maxDuration) {
-      return 100; // All flights same duration
-    }
-
-    // Inverse scoring: shorter duration = higher score
-    const normalizedDuration = (flight.duration - minDuration) / (maxDuration - minDuration);
-    return 100 * (1 - normalizedDuration);
+  filterFlights(flights: NormalizedFlight[], criteria: FlightFilterCriteria): NormalizedFlight[] {
+    const filters = buildFlightFilters(criteria);
+    return flights.filter((flight) => filters.every((filter) => filter.test(flight)));
   }
 
   /**
-   * Score stops component (0-100)
-   * Non-stop flight gets 100, more stops means lower score
+   * Sidebar facets for flights, each reflecting every filter but its own
    */
-  private scoreStopsComponent(flight: NormalizedFlight, allFlights: NormalizedFlight[]): number {
-    const stopCounts = allFlights.map((f) => f.stops);
-    const maxStops = Math.max(...stopCounts);
-
-    if (maxStops === 0) {
-      // All flights are non-stop
-      return 100;
-    }
-
-    // Inverse scoring: fewer stops = higher score
-    // Non-stop = 100, each additional stop reduces score
-    return 100 * (1 - flight.stops / maxStops);
+  getFacets(flights: NormalizedFlight[], criteria: FlightFilterCriteria = {}): FlightFacets {
+    return buildFacets(flights, criteria);
   }
 
   /**
-   * Filter flights by criteria
+   * Sort flights by a single field
+   * Defaults to descending order unless 'asc' is requested
+   * Flights with no price on the basis go last either way when sorting by price
    */
-  filterFlights(
+  sortFlights(
     flights: NormalizedFlight[],
-    criteria: {
-      maxPrice?: number;
-      maxStops?: number;
-      maxDuration?: number; // In minutes
-      airlines?: string[]; // Which airlines to include
-      minStars?: number; // If we had ratings
-    },
+    sortBy: 'price' | 'duration' | 'stops' | 'score',
+    sortOrder?: 'asc' | 'desc',
+    priceBasis?: PriceBasis,
   ): NormalizedFlight[] {
-    return flights.filter((flight) => {
-      if (criteria.maxPrice && flight.price > criteria.maxPrice) {
-        return false;
+    const direction = sortOrder === 'asc' ? 1 : -1;
+
+    const getValue = (flight: NormalizedFlight): number => {
+      switch (sortBy) {
+        case 'price':
+          return getComparablePrice(flight, priceBasis);
+        case 'duration':
+          return flight.duration;
+        case 'stops':
+          return flight.stops;
+        case 'score':
+          return flight.rankingScore || 0;
       }
+    };
 
-      if (criteria.maxStops !== undefined && flight.stops > criteria.maxStops) {
-        return false;
+    return [...flights].sort((a, b) => {
+      if (sortBy === 'price') {
+        const known = this.compareKnownPrice(a, b, priceBasis);
+        if (known) return known;
       }
 
-      if (criteria.maxDuration && flight.duration > criteria.maxDuration) {
-        return false;
-      }
+      const aVal = getValue(a);
+      const bVal = getValue(b);
 
-      if (criteria.airlines && !criteria.airlines.includes(flight.airlineCode)) {
-        return false;
-      }
-
-      return true;
+      if (aVal < bVal) return -1 * direction;
+      if (aVal > bVal) return 1 * direction;
+      return 0;
     });
   }
 
@@ -189,21 +202,6 @@ export class RankingEngine {
       median: Math.round(median * 100) / 100,
     };
   }
-
-  /**
-   * Set custom weights for scoring
-   * Useful for A/B testing different ranking strategies
-   */
-  setWeights(priceWeight: number, durationWeight: number, stopsWeight: number): void {
-    const total = priceWeight + durationWeight + stopsWeight;
-    if (Math.abs(total - 1.0) > 0.01) {
-      throw new Error('Weights must sum to 1.0');
-    }
-
-    this.priceWeight = priceWeight;
-    this.durationWeight = durationWeight;
-    this.stopsWeight = stopsWeight;
-  }
 }
 
 /**
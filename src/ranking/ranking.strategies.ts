@@ -0,0 +1,50 @@
+import { RankingProfile, RankingWeights } from '../common/types';
+
+/**
+ * A ranking strategy: which components matter and how much
+ * Weights are relative; the engine normalizes them to sum to 1
+ */
+export interface RankingStrategy {
+  name: RankingProfile;
+  description: string;
+  weights: RankingWeights;
+}
+
+const STRATEGIES: RankingStrategy[] = [
+  {
+    name: 'best',
+    description: 'Balance of price, duration and stops',
+    weights: { price: 0.6, duration: 0.25, stops: 0.15 },
+  },
+  {
+    name: 'cheapest',
+    description: 'Lowest price first',
+    weights: { price: 1 },
+  },
+  {
+    name: 'fastest',
+    description: 'Shortest total travel time first',
+    weights: { duration: 1 },
+  },
+  {
+    name: 'fewest-stops',
+    description: 'Fewest connections, then shortest and cheapest',
+    weights: { stops: 0.7, duration: 0.2, price: 0.1 },
+  },
+  {
+    name: 'comfort',
+    description: 'Avoids red-eyes, overnight layovers and tight connections',
+    weights: { connections: 0.3, redEye: 0.25, stops: 0.2, duration: 0.15, price: 0.1 },
+  },
+];
+
+/**
+ * Registry of ranking strategies by profile name
+ */
+export const RANKING_STRATEGIES: ReadonlyMap<RankingProfile, RankingStrategy> = new Map(
+  STRATEGIES.map((strategy) => [strategy.name, strategy]),
+);
+
+export const RANKING_PROFILES = STRATEGIES.map((strategy) => strategy.name);
+
+export const DEFAULT_RANKING_PROFILE: RankingProfile = 'best';
@@ -0,0 +1,135 @@
+import { NormalizedFlight, PriceBasis, ScoreComponentName } from '../common/types';
+import { getConnections, getLegs, isOvernight, isRedEye } from './itinerary.utils';
+import { getComparablePrice, isPriceKnown } from './price-basis';
+
+/**
+ * Result-set figures components compare a flight against
+ * Computed once per ranking pass instead of once per flight
+ */
+export interface RankingContext {
+  priceBasis: PriceBasis;
+  minPrice: number;
+  maxPrice: number;
+  minDuration: number;
+  maxDuration: number;
+  maxStops: number;
+  maxAirportDistance: number; // Origin + destination km, on nearby-airport searches
+}
+
+/**
+ * A single scoring dimension
+ * Scores are 0-100, higher is better
+ */
+export interface ScoreComponentScorer {
+  name: ScoreComponentName;
+  score(flight: NormalizedFlight, context: RankingContext): number;
+}
+
+// Connections shorter than this are risky to make
+const MIN_CONNECTION_MINUTES = parseInt(process.env.RANKING_MIN_CONNECTION_MINUTES || '60');
+
+export function buildRankingContext(flights: NormalizedFlight[], priceBasis: PriceBasis = 'total'): RankingContext {
+  // The price range comes from flights priced on the basis, unless none are
+  const priced = flights.filter((f) => isPriceKnown(f, priceBasis));
+  const prices = (priced.length > 0 ? priced : flights).map((f) => getComparablePrice(f, priceBasis));
+  const durations = flights.map((f) => f.duration);
+
+  return {
+    priceBasis,
+    minPrice: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+    minDuration: Math.min(...durations),
+    maxDuration: Math.max(...durations),
+    maxStops: Math.max(...flights.map((f) => f.stops)),
+    maxAirportDistance: Math.max(...flights.map(getAirportDistance)),
+  };
+}
+
+/**
+ * Cheapest flight (on the context's price basis) gets 100, most expensive gets 0
+ * Flights outside the context's range (not priced on the basis) are clamped
+ */
+const priceScorer: ScoreComponentScorer = {
+  name: 'price',
+  score: (flight, { priceBasis, minPrice, maxPrice }) =>
+    minPrice === maxPrice
+      ? 100
+      : Math.min(100, Math.max(0, 100 * (1 - (getComparablePrice(flight, priceBasis) - minPrice) / (maxPrice - minPrice)))),
+};
+
+/**
+ * Shortest flight gets 100, longest gets 0
+ */
+const durationScorer: ScoreComponentScorer = {
+  name: 'duration',
+  score: (flight, { minDuration, maxDuration }) =>
+    minDuration === maxDuration ? 100 : 100 * (1 - (flight.duration - minDuration) / (maxDuration - minDuration)),
+};
+
+/**
+ * Non-stop gets 100, the most stops in the result set gets 0
+ */
+const stopsScorer: ScoreComponentScorer = {
+  name: 'stops',
+  score: (flight, { maxStops }) => (maxStops === 0 ? 100 : 100 * (1 - flight.stops / maxStops)),
+};
+
+/**
+ * Loses 50 points per leg that departs 22:00-04:59 or arrives 00:00-05:59 (local)
+ */
+const redEyeScorer: ScoreComponentScorer = {
+  name: 'redEye',
+  score: (flight) => {
+    const redEyes = getLegs(flight).filter((leg) => isRedEye(leg.departure, leg.arrival)).length;
+    return Math.max(0, 100 - redEyes * 50);
+  },
+};
+
+/**
+ * Loses 50 points per overnight layover and 40 per connection shorter than
+ * RANKING_MIN_CONNECTION_MINUTES
+ */
+const connectionsScorer: ScoreComponentScorer = {
+  name: 'connections',
+  score: (flight) => {
+    let penalty = 0;
+
+    for (const connection of getConnections(flight)) {
+      if (connection.minutes < MIN_CONNECTION_MINUTES) {
+        penalty += 40;
+      }
+      if (isOvernight(connection)) {
+        penalty += 50;
+      }
+    }
+
+    return Math.max(0, 100 - penalty);
+  },
+};
+
+/**
+ * Flights from the requested airports get 100, the farthest alternative gets 0
+ * Only weighted when asked for (rankingWeights.airportDistance) or on nearby-airport searches
+ */
+const airportDistanceScorer: ScoreComponentScorer = {
+  name: 'airportDistance',
+  score: (flight, { maxAirportDistance }) =>
+    maxAirportDistance === 0 ? 100 : 100 * (1 - getAirportDistance(flight) / maxAirportDistance),
+};
+
+function getAirportDistance(flight: NormalizedFlight): number {
+  return flight.airportDistance ? flight.airportDistance.originKm + flight.airportDistance.destinationKm : 0;
+}
+
+const SCORERS: Record<ScoreComponentName, ScoreComponentScorer> = {
+  price: priceScorer,
+  duration: durationScorer,
+  stops: stopsScorer,
+  redEye: redEyeScorer,
+  connections: connectionsScorer,
+  airportDistance: airportDistanceScorer,
+};
+
+export function getScorer(name: ScoreComponentName): ScoreComponentScorer {
+  return SCORERS[name];
+}
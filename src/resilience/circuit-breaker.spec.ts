@@ -0,0 +1,76 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new CircuitBreaker(3, 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.recordFailure();
+    }
+  };
+
+  it('stays closed below the failure threshold', () => {
+    fail(2);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens after consecutive failures reach the threshold', () => {
+    fail(3);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('only counts consecutive failures', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getConsecutiveFailures()).toBe(2);
+  });
+
+  it('goes half-open after the cool-down and lets a single trial call through', () => {
+    fail(3);
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('closes when the trial call succeeds', () => {
+    fail(3);
+    jest.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getConsecutiveFailures()).toBe(0);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('re-opens for another cool-down when the trial call fails', () => {
+    fail(3);
+    jest.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    jest.advanceTimersByTime(999);
+    expect(breaker.canRequest()).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit Breaker
+ * - closed: calls go through; consecutive failures are counted
+ * - open: calls are rejected until the cool-down has passed
+ * - half-open: a single trial call decides whether to close or re-open
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private failureThreshold: number,
+    private cooldownMs: number,
+  ) {}
+
+  /**
+   * Whether a call may go through right now
+   * Moves an open circuit to half-open once the cool-down has passed
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getState(): CircuitState {
+    // Report half-open as soon as the cool-down has passed, even before the next call
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+}
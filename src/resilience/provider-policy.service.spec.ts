@@ -0,0 +1,97 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { ProviderPolicyService } from './provider-policy.service';
+import { CircuitOpenError, ProviderTimeoutError } from './resilience.errors';
+
+function httpError(status?: number): AxiosError {
+  const response = status === undefined ? undefined : ({ status, headers: {}, data: null } as AxiosResponse);
+  return new AxiosError(`Request failed${status ? ` with status ${status}` : ''}`, undefined, undefined, undefined, response);
+}
+
+describe('ProviderPolicyService', () => {
+  let service: ProviderPolicyService;
+
+  beforeEach(() => {
+    // No backoff, so retries run back to back
+    process.env.PROVIDER_POLICIES = JSON.stringify({
+      test: { deadlineMs: 1000, maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, failureThreshold: 2, cooldownMs: 60000 },
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    service = new ProviderPolicyService();
+  });
+
+  afterEach(() => {
+    delete process.env.PROVIDER_POLICIES;
+    jest.restoreAllMocks();
+  });
+
+  it('returns the result of a successful call', async () => {
+    await expect(service.execute('test', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it.each([500, 503, 429, 408])('retries %i responses', async (status) => {
+    const call = jest.fn().mockRejectedValueOnce(httpError(status)).mockResolvedValue('ok');
+
+    await expect(service.execute('test', call)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries network errors without a response', async () => {
+    const call = jest.fn().mockRejectedValueOnce(httpError()).mockResolvedValue('ok');
+
+    await expect(service.execute('test', call)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after maxRetries and counts the failure', async () => {
+    const call = jest.fn().mockRejectedValue(httpError(502));
+
+    await expect(service.execute('test', call)).rejects.toThrow('status 502');
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(service.getCircuitState('test')).toBe('closed');
+
+    await expect(service.execute('test', call)).rejects.toThrow('status 502');
+    expect(service.getCircuitState('test')).toBe('open');
+  });
+
+  it('does not retry client errors or let them trip the breaker', async () => {
+    const call = jest.fn().mockRejectedValue(httpError(400));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(service.execute('test', call)).rejects.toThrow('status 400');
+    }
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(service.getCircuitState('test')).toBe('closed');
+  });
+
+  it('does not retry other errors but counts them as failures', async () => {
+    const call = jest.fn().mockRejectedValue(new Error('Authentication failed'));
+
+    await expect(service.execute('test', call)).rejects.toThrow('Authentication failed');
+    await expect(service.execute('test', call)).rejects.toThrow('Authentication failed');
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(service.getCircuitState('test')).toBe('open');
+  });
+
+  it('rejects calls without making them while the circuit is open', async () => {
+    const failing = jest.fn().mockRejectedValue(new Error('down'));
+    await expect(service.execute('test', failing)).rejects.toThrow('down');
+    await expect(service.execute('test', failing)).rejects.toThrow('down');
+
+    const call = jest.fn().mockResolvedValue('ok');
+    await expect(service.execute('test', call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('times out calls that outlive the deadline', async () => {
+    process.env.PROVIDER_POLICIES = JSON.stringify({ slow: { deadlineMs: 20, maxRetries: 0 } });
+    service = new ProviderPolicyService();
+
+    await expect(service.execute('slow', () => new Promise(() => undefined))).rejects.toBeInstanceOf(ProviderTimeoutError);
+  });
+
+  it('merges per-provider overrides over the defaults', () => {
+    expect(service.getPolicy('test').maxRetries).toBe(2);
+    expect(service.getPolicy('other')).toMatchObject({ deadlineMs: 15000, failureThreshold: 5 });
+  });
+});
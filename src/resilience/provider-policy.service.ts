@@ -0,0 +1,205 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+import { CircuitOpenError, ProviderTimeoutError } from './resilience.errors';
+
+/**
+ * Resilience policy for calls to a single provider
+ */
+export interface ProviderPolicy {
+  deadlineMs: number; // Total time budget for a call, including retries
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Backoff base; doubles on each retry
+  maxDelayMs: number; // Upper bound for a single backoff (and Retry-After)
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  cooldownMs: number; // How long the circuit stays open before a trial call
+}
+
+const DEFAULT_POLICY: ProviderPolicy = {
+  deadlineMs: 15000,
+  maxRetries: 2,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  failureThreshold: 5,
+  cooldownMs: 30000,
+};
+
+/**
+ * Provider Policy Service
+ * Wraps provider calls with a deadline, bounded retries with jittered
+ * backoff and a per-provider circuit breaker
+ *
+ * Per-provider overrides come from PROVIDER_POLICIES, e.g.
+ * PROVIDER_POLICIES='{"amadeus":{"deadlineMs":12000,"maxRetries":1}}'
+ */
+@Injectable()
+export class ProviderPolicyService {
+  private overrides: Record<string, Partial<ProviderPolicy>> = {};
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  constructor() {
+    this.loadOverrides();
+  }
+
+  /**
+   * Run a provider call under that provider's policy
+   */
+  async execute<T>(providerName: string, call: () => Promise<T>): Promise<T> {
+    const policy = this.getPolicy(providerName);
+    const breaker = this.getBreaker(providerName);
+
+    if (!breaker.canRequest()) {
+      throw new CircuitOpenError(providerName);
+    }
+
+    const deadline = Date.now() + policy.deadlineMs;
+
+    for (let attempt = 0; ; attempt++) {
+      const remaining = deadline - Date.now();
+
+      try {
+        if (remaining <= 0) {
+          throw new ProviderTimeoutError(providerName, policy.deadlineMs);
+        }
+
+        const result = await this.withTimeout(call(), remaining, providerName, policy.deadlineMs);
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const { retryable, countsAsFailure } = this.classifyError(error);
+
+        const delay = this.getRetryDelay(error, attempt, policy);
+        const canRetry = retryable && attempt < policy.maxRetries && Date.now() + delay < deadline;
+
+        if (!canRetry) {
+          // Client errors (bad request etc.) mean the provider is up, so they don't trip the breaker
+          if (countsAsFailure) {
+            breaker.recordFailure();
+          } else {
+            breaker.recordSuccess();
+          }
+          throw error;
+        }
+
+        console.warn(
+          `[RESILIENCE] ${providerName} attempt ${attempt + 1} failed (${error instanceof Error ? error.message : error}), retrying in ${delay}ms`,
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Current circuit state for a provider
+   */
+  getCircuitState(providerName: string): CircuitState {
+    return this.getBreaker(providerName).getState();
+  }
+
+  /**
+   * Effective policy for a provider (defaults merged with overrides)
+   */
+  getPolicy(providerName: string): ProviderPolicy {
+    return { ...DEFAULT_POLICY, ...this.overrides[providerName] };
+  }
+
+  private getBreaker(providerName: string): CircuitBreaker {
+    let breaker = this.breakers.get(providerName);
+    if (!breaker) {
+      const policy = this.getPolicy(providerName);
+      breaker = new CircuitBreaker(policy.failureThreshold, policy.cooldownMs);
+      this.breakers.set(providerName, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Decide whether an error is worth retrying and whether it means the provider is unhealthy
+   * Retryable: timeouts, network errors, 408, 429 and 5xx responses
+   */
+  private classifyError(error: unknown): { retryable: boolean; countsAsFailure: boolean } {
+    if (error instanceof ProviderTimeoutError) {
+      return { retryable: true, countsAsFailure: true };
+    }
+
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+
+      if (status === undefined || status === 408 || status === 429 || status >= 500) {
+        return { retryable: true, countsAsFailure: true };
+      }
+
+      return { retryable: false, countsAsFailure: false };
+    }
+
+    // Anything else (e.g. authentication failures) isn't retried but still counts
+    return { retryable: false, countsAsFailure: true };
+  }
+
+  /**
+   * Backoff before the next attempt
+   * Honors Retry-After on 429s, otherwise exponential backoff with full jitter
+   */
+  private getRetryDelay(error: unknown, attempt: number, policy: ProviderPolicy): number {
+    if (axios.isAxiosError(error) && error.response?.status === 429) {
+      const retryAfter = this.parseRetryAfter(error.response.headers?.['retry-after']);
+      if (retryAfter !== null) {
+        return Math.min(retryAfter, policy.maxDelayMs);
+      }
+    }
+
+    const exponential = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+    return Math.round(Math.random() * exponential);
+  }
+
+  /**
+   * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+   */
+  private parseRetryAfter(header: unknown): number | null {
+    if (typeof header !== 'string' && typeof header !== 'number') {
+      return null;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(header));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, providerName: string, deadlineMs: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new ProviderTimeoutError(providerName, deadlineMs)), timeoutMs);
+
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private loadOverrides(): void {
+    if (!process.env.PROVIDER_POLICIES) {
+      return;
+    }
+
+    try {
+      this.overrides = JSON.parse(process.env.PROVIDER_POLICIES);
+      console.log('[RESILIENCE] Loaded provider policy overrides for:', Object.keys(this.overrides));
+    } catch (error) {
+      console.error('[RESILIENCE] Invalid PROVIDER_POLICIES JSON, using defaults:', error);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Thrown when a provider call exceeds its deadline
+ */
+export class ProviderTimeoutError extends Error {
+  constructor(providerName: string, timeoutMs: number) {
+    super(`Provider ${providerName} timed out after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+/**
+ * Thrown instead of calling a provider whose circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(providerName: string) {
+    super(`Provider ${providerName} is temporarily unavailable (circuit open)`);
+    this.name = 'CircuitOpenError';
+  }
+}